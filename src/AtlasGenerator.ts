@@ -1,5 +1,6 @@
 import { MSDFGenerator, MSDFGlyph } from '../lib/kitMSDF/kitMSDF.js';
 import { WorkerPool } from './worker/WorkerPool.js';
+import { FontInfo, scaleFontMetrics } from './FontInfo.js';
 
 export interface AtlasChar {
     id: number;
@@ -14,6 +15,12 @@ export interface AtlasChar {
     chnl: number;
 }
 
+export interface AtlasKerning {
+    first: number;     // Left codepoint
+    second: number;    // Right codepoint
+    amount: number;    // Added to first's xadvance (pixels at fontSize)
+}
+
 export interface AtlasTiming {
     totalMs: number;
     glyphGenMs: number;
@@ -35,6 +42,22 @@ export interface AtlasResult {
     timing: AtlasTiming;
 }
 
+// The parts of the sheet JSON FontAtlas.importSheet() reads
+export interface AtlasJson {
+    chars: AtlasChar[];
+    info: { size: number };                  // generation size in pixels
+    common: { base: number };                // baseline from the top of a line
+    distanceField?: { fieldType: string; distanceRange: number };
+}
+
+// A generated sheet - an AtlasResult, or the JSON plus the decoded RGBA of its png
+export interface AtlasSheet {
+    image: Uint8Array;   // RGBA, width * height * 4, rows top-down as in the png
+    width: number;
+    height: number;
+    json: AtlasJson;
+}
+
 export class AtlasGenerator {
     private gen: MSDFGenerator;
     private pool: WorkerPool | null = null;
@@ -163,7 +186,9 @@ export class AtlasGenerator {
         };
 
         const placedGlyphs: AtlasChar[] = [];
-        const base = Math.ceil(fontSize * 0.8);
+        const fontInfo = new FontInfo(fontBytes);
+        const fontMetrics = scaleFontMetrics(fontInfo.getMetrics(), fontSize / fontInfo.unitsPerEm);
+        const base = Math.ceil(fontMetrics.ascender);
 
         for (const item of layout) {
             const { x, y, w, h, data } = item;
@@ -219,8 +244,10 @@ export class AtlasGenerator {
         const json = {
             pages: ["atlas.png"],
             chars: placedGlyphs,
+            kernings: this.getKernings(fontInfo, chars, fontSize),
             info: { face: "test", size: fontSize, type: type },
-            common: { lineHeight: fontSize * 1.2, base: base, scaleW: atlasWidth, scaleH: atlasHeight }
+            common: { lineHeight: fontMetrics.lineHeight, base: base, scaleW: atlasWidth, scaleH: atlasHeight },
+            distanceField: { fieldType: type, distanceRange: range }
         };
 
         return {
@@ -242,4 +269,22 @@ export class AtlasGenerator {
             }
         };
     }
+
+    // Non-zero kerning pairs between the requested chars
+    private getKernings(info: FontInfo, chars: number[], fontSize: number): AtlasKerning[] {
+        const scale = fontSize / info.unitsPerEm;
+        const kernings: AtlasKerning[] = [];
+
+        for (const first of chars) {
+            if (!info.hasKerning(first)) continue;
+
+            for (const second of chars) {
+                const amount = info.getKerning(first, second);
+                if (amount !== 0) {
+                    kernings.push({ first, second, amount: amount * scale });
+                }
+            }
+        }
+        return kernings;
+    }
 }
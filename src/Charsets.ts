@@ -0,0 +1,82 @@
+import type { CharsetName, CharsetSpec, CodepointRange } from './types.js';
+
+// Predefined charsets for the primary page
+export const CHARSET_RANGES: Record<CharsetName, CodepointRange[]> = {
+    // 0-9, A-Z, a-z
+    'latin': [
+        [0x30, 0x39],
+        [0x41, 0x5A],
+        [0x61, 0x7A],
+    ],
+    // Printable ASCII
+    'ascii': [
+        [0x20, 0x7E],
+    ],
+    // ASCII + Latin-1 Supplement (Western European)
+    'latin1': [
+        [0x20, 0x7E],
+        [0xA0, 0xFF],
+    ],
+    // Latin Extended-A (Central/Eastern European, Turkish, Baltic)
+    'latin-ext-a': [
+        [0x100, 0x17F],
+    ],
+    // Cyrillic block
+    'cyrillic': [
+        [0x400, 0x4FF],
+    ],
+    // Greek and Coptic block (modern monotonic Greek)
+    'greek': [
+        [0x370, 0x3FF],
+    ],
+    // Vietnamese letters on top of ASCII: base vowels with marks + Latin Extended Additional
+    'vietnamese': [
+        [0x20, 0x7E],
+        [0xC0, 0xC3], [0xC8, 0xCA], [0xCC, 0xCD], [0xD2, 0xD5], [0xD9, 0xDA], [0xDD, 0xDD],
+        [0xE0, 0xE3], [0xE8, 0xEA], [0xEC, 0xED], [0xF2, 0xF5], [0xF9, 0xFA], [0xFD, 0xFD],
+        [0x102, 0x103], [0x110, 0x111], [0x128, 0x129], [0x168, 0x169],
+        [0x1A0, 0x1A1], [0x1AF, 0x1B0],
+        [0x1EA0, 0x1EF9],
+    ],
+};
+
+// Set of codepoints built from charset names and custom ranges
+export class Charset {
+
+    readonly codePoints: number[];
+    private members: Set<number>;
+
+    constructor(specs: CharsetSpec[]) {
+        this.members = new Set();
+        for (const spec of specs) {
+            const ranges = typeof spec === 'string' ? CHARSET_RANGES[spec] : [spec];
+            if (!ranges) {
+                throw new Error(`Unknown charset: ${spec}`);
+            }
+            for (const [start, end] of ranges) {
+                for (let cp = start; cp <= end; cp++) {
+                    this.members.add(cp);
+                }
+            }
+        }
+        this.codePoints = [...this.members].sort((a, b) => a - b);
+    }
+
+    has(codePoint: number): boolean {
+        return this.members.has(codePoint);
+    }
+
+    get size(): number {
+        return this.members.size;
+    }
+}
+
+export function isLatinChar(codePoint: number): boolean {
+    for (const [start, end] of CHARSET_RANGES.latin) {
+        if (codePoint >= start && codePoint <= end) return true;
+    }
+    return false;
+}
+
+// All Latin codepoints as array (62 chars: 0-9, A-Z, a-z)
+export const LATIN_CODEPOINTS: number[] = new Charset(['latin']).codePoints;
@@ -10,208 +10,1131 @@
  *    - Multiple getGlyph() calls batch into single Promise
  *    - When Promise resolves: WASM generates glyphs, updates textures
  *    - NO MANUAL PUMPING - Promise auto-resolves
+ *    - Queue is ordered by GlyphRequest.priority; with config.frameBudgetMs a run stops
+ *      when the budget is spent and continues next frame
+ *    - config.autoProcess = false: nothing runs until pump(budgetMs) is called
+ *    - Fonts with a worker pool (setWorkerPool) generate off the main thread;
+ *      results are stitched in as they return, each wave firing onGlyphsReady
+ *    - A glyph that throws is reported to onError and queued again up to
+ *      config.maxRetries times, then marked failed - the rest of the batch carries on
+ *    - After each batch, variant atlases idle for config.idleTimeoutMs are freed, then
+ *      least recently used atlases and pages until under config.maxMemoryBytes
  *
- * 3. prefabLatin(variantId, fontSize, fontBuffer) → SYNC
- *    - Generates all Latin chars (a-z, A-Z, 0-9) immediately
+ * 3. prefabCharset(variantId, fontSize, fontId) → SYNC
+ *    - Generates the primary charset (config.primaryCharsets, default a-z, A-Z, 0-9) immediately
  *    - Blocks until complete
  *    - After return, getGlyph('a') etc return with no pending work
  *
+ * 4. importSheet(sheet, variantId, fontId) → SYNC
+ *    - Seeds a variant with the glyphs of an AtlasGenerator sheet
+ *    - Anything the sheet lacks is generated on demand as usual
+ *
+ * 5. serialize() / restore(snapshot) → persist the cache between runs
+ *    - saveTo(storage) / loadFrom(storage) encode it for an AtlasStorage adapter
+ *    - Restoring refuses snapshots made with other font bytes or config
+ *
  * USAGE:
  *   const atlas = new FontAtlas(msdf, textureFactory, onGlyphsReady);
+ *   atlas.registerFont('inter', fontBytes);
  *
  *   // Async flow (normal):
- *   const info = atlas.getGlyph({ codePoint: 65, ... });
+ *   const info = atlas.getGlyph({ codePoint: 65, fontId: 'inter', ... });
  *   // info.texture is the page, info.cached tells if ready
- *   // onGlyphsReady() called when batch completes
+ *   // onGlyphsReady({ glyphs, textures }) called when batch completes
+ *
+ *   // Or wait for specific glyphs:
+ *   const infos = await atlas.whenReady([requestA, requestB]);
+ *
+ *   // Codepoints missing from 'inter' come from the first fallback that has them:
+ *   atlas.setFallbackFonts('regular', ['noto-cjk', 'noto-symbols']);
  *
  *   // Sync flow (debug/prefab):
- *   atlas.prefabLatin('regular', 32, fontBytes);
- *   // All Latin glyphs now ready, no async work needed
+ *   atlas.prefabCharset('regular', 32, 'inter');
+ *   // All primary charset glyphs now ready, no async work needed
  */
 
 import type { MSDFGenerator, VariationAxis } from '../lib/kitMSDF/kitMSDF.js';
-import type { TextureFactory, GlyphRequest, GlyphInfo, GlyphMetrics, AtlasConfig, AtlasStatus, GlyphLocation } from './types.js';
+import type { TextureFactory, GlyphRequest, GlyphInfo, GlyphMetrics, AtlasConfig, AtlasStatus, GlyphLocation, GlyphEvictionEvent, TextureReplacedEvent, CharsetSpec, FontOptions, FontMetrics, TextStyle, TextLayout, TextMeasurement, GlyphWorkerPool, GlyphWorkerResult, ReadyGlyph, GlyphsReadyEvent, GlyphErrorEvent, AtlasEvictionEvent, AtlasSnapshot, AtlasStorage, SnapshotConfigKey, VariantMismatchEvent, AxisQuantization, FieldType, PageFormat, VariantOptions } from './types.js';
 import { DEFAULT_CONFIG, LATIN_CODEPOINTS } from './types.js';
 import { VariantAtlas } from './VariantAtlas.js';
+import { TextureArray } from './TextureArray.js';
+import { fieldTypeFormat, pageChannels } from './Page.js';
+import { Charset } from './Charsets.js';
+import { FontInfo, scaleFontMetrics } from './FontInfo.js';
+import type { AtlasSheet, AtlasChar } from './AtlasGenerator.js';
+import { layoutText } from './TextLayout.js';
+import { GlyphQueue } from './GlyphQueue.js';
+import type { GenSizePolicy } from './sizing/GenSizePolicy.js';
+import { ThresholdSizePolicy } from './sizing/ThresholdSizePolicy.js';
+import { hashBytes } from './hash.js';
+import { SNAPSHOT_VERSION, encodeSnapshot, decodeSnapshot } from './Snapshot.js';
 
 interface PendingGlyph {
     codePoint: number;
     genSize: number;
-    fontBuffer: Uint8Array;
+    fontId: string;
     variationAxes?: VariationAxis[];
     variantId: string;
+    priority: number;
+    attempts: number;   // failed generations so far
+}
+
+// A pending glyph and the position it has reached in its font chain
+interface ChainStep {
+    pending: PendingGlyph;
+    chain: string[];
+    index: number;
+}
+
+// Font and axes a variant was last requested with
+interface VariantFont {
+    fontId: string;
+    variationAxes?: VariationAxis[];
+}
+
+// Font bytes and axes a variant id was first used with
+interface VariantIdentity extends VariantFont {
+    key: string;              // see getVariantKey()
+    reported: Set<string>;    // mismatching keys already passed to onVariantMismatch
+}
+
+// Outline metrics of one codepoint for measureText(), in the supplying font's units
+interface MeasuredGlyph {
+    fontId: string;
+    unitsPerEm: number;
+    advance: number;
+    bounds: { l: number; b: number; r: number; t: number } | null;
+}
+
+// Request axes snapped to config.axisQuantization - upper / weight only differ when blending
+interface AxisInstances {
+    lower: VariationAxis[] | undefined;
+    upper: VariationAxis[] | undefined;
+    weight: number;   // 0..1 between lower and upper
 }
 
+// A whenReady() call waiting for its glyphs
+interface ReadyWaiter<T> {
+    requests: GlyphRequest[];
+    resolve: (infos: GlyphInfo<T>[]) => void;
+    reject: (error: Error) => void;
+}
+
+interface RegisteredFont {
+    bytes: Uint8Array;
+    options: FontOptions;
+    info: FontInfo | null;   // parsed on first use
+    hash: string | null;     // content hash, computed on first snapshot
+}
+
+// Config a snapshot must agree on to be restored
+const SNAPSHOT_CONFIG_KEYS: SnapshotConfigKey[] = [
+    'genSizes', 'sizeThresholds', 'pageSize', 'pixelRange', 'fieldType', 'packing', 'pageMode', 'initialPageSize', 'primaryCharsets',
+];
+
+// Axis values within this many steps of a quantization step count as on it
+const GRID_EPSILON = 1e-9;
+
 export class FontAtlas<T> {
 
     private msdf: MSDFGenerator;
     private textureFactory: TextureFactory<T>;
     private config: AtlasConfig;
     private atlases: Map<string, VariantAtlas<T>> = new Map();
-    private onGlyphsReady: (() => void) | null;
+    private fonts: Map<string, RegisteredFont> = new Map();
+    private variantFonts: Map<string, VariantFont> = new Map();
+    private variantIdentities: Map<string, VariantIdentity> = new Map();
+    private measureCache: Map<string, Map<number, MeasuredGlyph>> = new Map();  // variantId → codePoint → metrics
+    private fallbackFonts: Map<string, string[]> = new Map(); // variantId → fallback fontIds
+    private loadedFontId: string | null = null;               // font currently in WASM memory
+    private onGlyphsReady: ((event: GlyphsReadyEvent<T>) => void) | null;
+    private readyGlyphs: ReadyGlyph[] = [];                   // completed since the last event
+    private readyWaiters: ReadyWaiter<T>[] = [];
+    private evictedWhileAwaited: Set<string> = new Set();    // pending keys of mixed page glyphs lost since the last settle
+    private provisionalGlyphs: Set<string> = new Set();       // pending keys a stand-in was served for
 
-    private pendingGlyphs: PendingGlyph[] = [];
+    private queue: GlyphQueue<PendingGlyph> = new GlyphQueue();
     private batchPromise: Promise<void> | null = null;
+    private workerPools: Map<string, GlyphWorkerPool> = new Map();   // fontId → pool
+    private workerGlyphs: Set<string> = new Set();                   // dispatched, result not back yet
+    private workerFlushPromise: Promise<void> | null = null;
+    private sharedTextureArrays: Map<PageFormat, TextureArray<T>> = new Map();
+    private variantOptions: Map<string, VariantOptions> = new Map();
+    private primaryCharset: Charset;
+    private genSizePolicy: GenSizePolicy;
+
+    // Called when a full variant reclaims a mixed page - rebuild quads that use the texture
+    onGlyphsEvicted: ((event: GlyphEvictionEvent<T>) => void) | null = null;
+
+    // Called when a page or array texture grew and was replaced - rebind anything holding oldTexture
+    onTextureReplaced: ((event: TextureReplacedEvent<T>) => void) | null = null;
+
+    // Called when generating or placing a glyph throws
+    onError: ((event: GlyphErrorEvent) => void) | null = null;
+
+    // Called when an atlas or page was destroyed to save memory - re-request its glyphs
+    onAtlasEvicted: ((event: AtlasEvictionEvent<T>) => void) | null = null;
+
+    // Called once per differing font / axes when an explicit variantId is reused with them
+    onVariantMismatch: ((event: VariantMismatchEvent) => void) | null = null;
 
     constructor(
         msdf: MSDFGenerator,
         textureFactory: TextureFactory<T>,
-        onGlyphsReady?: () => void,
+        onGlyphsReady?: (event: GlyphsReadyEvent<T>) => void,
         config?: Partial<AtlasConfig>
     ) {
         this.msdf = msdf;
         this.textureFactory = textureFactory;
         this.onGlyphsReady = onGlyphsReady || null;
         this.config = { ...DEFAULT_CONFIG, ...config };
+        this.primaryCharset = new Charset(this.config.primaryCharsets);
+        this.genSizePolicy = this.config.genSizePolicy ?? new ThresholdSizePolicy();
+        validateGenSizes(this.config);
+
+        if (this.config.maxTextureSize < this.config.pageSize) {
+            throw new Error(`maxTextureSize (${this.config.maxTextureSize}) is smaller than pageSize (${this.config.pageSize})`);
+        }
+
+        if (this.config.pageMode !== 'texture' && (!textureFactory.createLayered || !textureFactory.updateLayer)) {
+            throw new Error(`pageMode '${this.config.pageMode}' requires TextureFactory.createLayered and updateLayer`);
+        }
+
+        if (this.config.axisQuantization) {
+            const quantization: Record<string, AxisQuantization> = {};
+            for (const [tag, grid] of Object.entries(this.config.axisQuantization)) {
+                if (typeof grid === 'number' ? !(grid > 0) : grid.length === 0) {
+                    throw new Error(`axisQuantization '${tag}' needs a positive step or at least one instance`);
+                }
+                quantization[tag] = typeof grid === 'number' ? grid : [...grid].sort((a, b) => a - b);
+            }
+            this.config.axisQuantization = quantization;
+        }
+    }
+
+    /**
+     * Register font bytes under an id. Requests reference the font by fontId,
+     * and the bytes are copied into WASM memory at most once per batch.
+     */
+    registerFont(fontId: string, bytes: Uint8Array, options: FontOptions = {}): void {
+        if (this.fonts.has(fontId)) {
+            this.unregisterFont(fontId);
+        }
+        this.fonts.set(fontId, { bytes, options, info: null, hash: null });
+    }
+
+    /**
+     * Remove a font and destroy every variant atlas created for it
+     */
+    unregisterFont(fontId: string): void {
+        if (!this.fonts.delete(fontId)) return;
+
+        for (const [variantId, variant] of this.variantFonts) {
+            if (variant.fontId !== fontId) continue;
+
+            for (const [key, atlas] of this.atlases) {
+                if (atlas.variantId === variantId) {
+                    atlas.destroy();
+                    this.atlases.delete(key);
+                }
+            }
+            this.variantFonts.delete(variantId);
+            this.variantIdentities.delete(variantId);
+        }
+
+        this.queue.filter(pending => pending.fontId !== fontId);
+        this.measureCache.clear();
+        if (this.loadedFontId === fontId) {
+            this.loadedFontId = null;
+        }
+
+        // Waiters on the removed font reject
+        this.settleWaiters();
+    }
+
+    hasFont(fontId: string): boolean {
+        return this.fonts.has(fontId);
+    }
+
+    /**
+     * Generate a font's glyphs on a worker pool created with the same font bytes.
+     * Glyphs with variation axes, and all glyphs of fonts without a pool, still
+     * generate synchronously. Pass null to go back to the synchronous path.
+     */
+    setWorkerPool(fontId: string, pool: GlyphWorkerPool | null): void {
+        if (pool) {
+            this.workerPools.set(fontId, pool);
+        } else {
+            this.workerPools.delete(fontId);
+        }
+    }
+
+    /**
+     * Set the fonts tried, in order, for codepoints the variant's own font lacks.
+     * Glyphs are cached under the variant and GlyphInfo.fontId names the supplying font.
+     * Glyphs already marked missing are retried on their next request.
+     */
+    setFallbackFonts(variantId: string, fontIds: string[]): void {
+        if (fontIds.length > 0) {
+            this.fallbackFonts.set(variantId, [...fontIds]);
+        } else {
+            this.fallbackFonts.delete(variantId);
+        }
+
+        for (const atlas of this.atlases.values()) {
+            if (atlas.variantId === variantId) {
+                atlas.clearMissing();
+            }
+        }
+        this.measureCache.delete(variantId);
+    }
+
+    getFallbackFonts(variantId: string): string[] {
+        return [...(this.fallbackFonts.get(variantId) ?? [])];
     }
 
+    /**
+     * Field type and pixelRange for one variant, in place of config.fieldType / pixelRange.
+     * 'sdf' and 'psdf' variants get R8 pages. Glyphs aren't converted, so options must be
+     * set before the variant's first glyph - throws if it already has some.
+     */
+    setVariantOptions(variantId: string, options: VariantOptions): void {
+        if (options.pixelRange !== undefined && !(options.pixelRange > 0)) {
+            throw new Error(`pixelRange must be positive, got ${options.pixelRange}`);
+        }
+
+        const current = this.getVariantOptions(variantId);
+        const next = { ...current, ...options };
+        if (next.fieldType === current.fieldType && next.pixelRange === current.pixelRange) {
+            this.variantOptions.set(variantId, next);
+            return;
+        }
+        if (this.hasVariantAtlases(variantId)) {
+            throw new Error(`Variant '${variantId}' already has glyphs - set its options before the first request`);
+        }
+        this.variantOptions.set(variantId, next);
+    }
+
+    // The variant's options, defaults filled in from the config
+    getVariantOptions(variantId: string): Required<VariantOptions> {
+        const options = this.variantOptions.get(variantId);
+        return {
+            fieldType: options?.fieldType ?? this.config.fieldType,
+            pixelRange: options?.pixelRange ?? this.config.pixelRange,
+        };
+    }
+
+    private hasVariantAtlases(variantId: string): boolean {
+        for (const atlas of this.atlases.values()) {
+            if (atlas.variantId === variantId) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Glyph for a request, queued for generation if it isn't cached. Axes are snapped to
+     * config.axisQuantization first; with request.blend, GlyphInfo.blend holds the glyph at
+     * the next instance and the weight to mix the two with.
+     */
     getGlyph(request: GlyphRequest): GlyphInfo<T> {
-        const genSize = this.selectGenSize(request.renderSize);
-        const atlas = this.getOrCreateAtlas(request.variantId, genSize);
+        const instances = this.resolveInstances(request);
+        const info = this.getInstanceGlyph(request, instances.lower);
+        if (instances.weight > 0) {
+            info.blend = { to: this.getInstanceGlyph(request, instances.upper), weight: instances.weight };
+        }
+        return info;
+    }
+
+    private getInstanceGlyph(request: GlyphRequest, variationAxes: VariationAxis[] | undefined): GlyphInfo<T> {
+        const variantId = request.variantId ?? this.getVariantId(request.fontId, variationAxes);
+        this.bindVariant(variantId, request.fontId, variationAxes);
+
+        const genSize = this.selectGenSize(request.renderSize, variantId, request, variationAxes);
+        const atlas = this.getOrCreateAtlas(variantId, genSize);
 
         // Check cache
         const location = atlas.getGlyph(request.codePoint);
         if (location) {
-            return this.locationToInfo(location, genSize, true);
+            return this.locationToInfo(location, atlas, true, request, variationAxes);
         }
 
-        // Reserve slot in page (no pixels yet)
+        // Reserve slot in page (no pixels yet) - returns the existing one if already pending
         const placeholder = atlas.reserveGlyph(request.codePoint);
 
-        // Queue generation
-        this.queueGeneration({
+        // Queue generation (or raise the priority of the queued request)
+        const pending: PendingGlyph = {
             codePoint: request.codePoint,
             genSize,
-            fontBuffer: request.fontBuffer,
-            variationAxes: request.variationAxes,
-            variantId: request.variantId,
+            fontId: request.fontId,
+            variationAxes,
+            variantId,
+            priority: request.priority ?? 0,
+            attempts: 0,
+        };
+        this.queueGeneration(pending);
+
+        // Same glyph cached at another size - draw that until this one is ready
+        const standIn = this.findStandIn(variantId, genSize, request.codePoint);
+        if (standIn) {
+            this.provisionalGlyphs.add(pendingKey(pending));
+            const info = this.locationToInfo(standIn.location, standIn.atlas, false, request, variationAxes);
+            info.provisional = true;
+            return info;
+        }
+
+        return this.locationToInfo(placeholder, atlas, false, request, variationAxes);
+    }
+
+    // Cached glyph of the variant at the genSize nearest genSize (larger wins ties)
+    private findStandIn(variantId: string, genSize: number, codePoint: number): { location: GlyphLocation<T>; atlas: VariantAtlas<T> } | null {
+        let best: { location: GlyphLocation<T>; atlas: VariantAtlas<T> } | null = null;
+        for (const size of this.config.genSizes) {
+            if (size === genSize) continue;
+            if (best && Math.abs(size - genSize) > Math.abs(best.atlas.genSize - genSize)) continue;
+
+            const atlas = this.atlases.get(`${variantId}_${size}`);
+            if (!atlas?.hasGlyph(codePoint)) continue;
+
+            const location = atlas.getGlyph(codePoint);
+            if (location && !location.empty) {
+                best = { location, atlas };
+            }
+        }
+        return best;
+    }
+
+    // Request axes (or the font's) snapped to config.axisQuantization
+    private resolveInstances(request: GlyphRequest): AxisInstances {
+        if (request.blend && request.variantId !== undefined) {
+            throw new Error('GlyphRequest.blend needs a derived variantId - leave variantId unset');
+        }
+        const axes = request.variationAxes ?? this.getFont(request.fontId).options.variationAxes;
+        return quantizeAxes(axes, this.config.axisQuantization, request.blend ?? false);
+    }
+
+    private snapAxes(axes: VariationAxis[] | undefined): VariationAxis[] | undefined {
+        return quantizeAxes(axes, this.config.axisQuantization, false).lower;
+    }
+
+    /**
+     * Resolves once the requested glyphs are generated and uploaded, with their GlyphInfo
+     * in request order. Queues any that aren't cached yet. Rejects if the font is
+     * unregistered or the atlas disposed first, or if one of the glyphs is evicted while
+     * waiting - the set doesn't fit the variant's mixed pages at once.
+     */
+    whenReady(request: GlyphRequest): Promise<GlyphInfo<T>>;
+    whenReady(requests: GlyphRequest[]): Promise<GlyphInfo<T>[]>;
+    whenReady(requests: GlyphRequest | GlyphRequest[]): Promise<GlyphInfo<T> | GlyphInfo<T>[]> {
+        const list = Array.isArray(requests) ? requests : [requests];
+
+        const ready = new Promise<GlyphInfo<T>[]>((resolve, reject) => {
+            const infos = list.map(request => this.getGlyph(request));
+            if (infos.every(isReady)) {
+                resolve(infos);
+            } else {
+                this.readyWaiters.push({ requests: list, resolve, reject });
+            }
         });
 
-        return this.locationToInfo(placeholder, genSize, false);
+        return Array.isArray(requests) ? ready : ready.then(infos => infos[0]);
+    }
+
+    // Resolve waiters whose glyphs have all been generated
+    private settleWaiters(): void {
+        const evicted = this.evictedWhileAwaited;
+        this.evictedWhileAwaited = new Set();
+
+        this.readyWaiters = this.readyWaiters.filter(waiter => {
+            try {
+                // Queuing it again would only evict another of the set, forever
+                const lost = evicted.size > 0 && waiter.requests.find(request =>
+                    this.getRequestAtlasKeys(request).some(key => evicted.has(`${key}_${request.codePoint}`)));
+                if (lost) {
+                    throw new Error(`whenReady() glyph ${lost.codePoint} was evicted before the rest were ready - ` +
+                        `the set doesn't fit the variant's mixed pages at once (raise maxMixedPages or pageSize)`);
+                }
+
+                if (waiter.requests.some(request => this.isRequestPending(request))) return true;
+
+                // Glyphs evicted in the meantime are queued again by getGlyph()
+                const infos = waiter.requests.map(request => this.getGlyph(request));
+                if (!infos.every(isReady)) return true;
+
+                waiter.resolve(infos);
+            } catch (error) {
+                waiter.reject(error as Error);
+            }
+            return false;
+        });
+    }
+
+    private isRequestPending(request: GlyphRequest): boolean {
+        return this.getRequestAtlasKeys(request).some(key => this.atlases.get(key)?.isPending(request.codePoint) ?? false);
+    }
+
+    // Keys of the variant atlases a request reads from - two when it blends instances
+    private getRequestAtlasKeys(request: GlyphRequest): string[] {
+        const { lower, upper, weight } = this.resolveInstances(request);
+
+        return (weight > 0 ? [lower, upper] : [lower]).map(axes => {
+            const variantId = request.variantId ?? this.getVariantId(request.fontId, axes);
+            return `${variantId}_${this.selectGenSize(request.renderSize, variantId, request, axes, true)}`;
+        });
+    }
+
+    // Codepoints a whenReady() caller waits on in one variant atlas
+    private getAwaitedGlyphs(atlasKey: string): Set<number> {
+        const codePoints = new Set<number>();
+        for (const waiter of this.readyWaiters) {
+            for (const request of waiter.requests) {
+                if (this.fonts.has(request.fontId) && this.getRequestAtlasKeys(request).includes(atlasKey)) {
+                    codePoints.add(request.codePoint);
+                }
+            }
+        }
+        return codePoints;
+    }
+
+    // Atlases glyphs were just written to, and those a whenReady() caller still waits on
+    private getBusyAtlases(glyphs: ReadyGlyph[]): Set<VariantAtlas<T>> {
+        const keys = new Set(glyphs.map(glyph => `${glyph.variantId}_${glyph.genSize}`));
+        for (const waiter of this.readyWaiters) {
+            for (const request of waiter.requests) {
+                // Waiters on an unregistered font are about to reject
+                if (!this.fonts.has(request.fontId)) continue;
+                for (const key of this.getRequestAtlasKeys(request)) {
+                    keys.add(key);
+                }
+            }
+        }
+
+        const busy = new Set<VariantAtlas<T>>();
+        for (const key of keys) {
+            const atlas = this.atlases.get(key);
+            if (atlas) busy.add(atlas);
+        }
+        return busy;
+    }
+
+    // Glyphs queued or generating on a worker
+    get pendingCount(): number {
+        return this.queue.size + this.workerGlyphs.size;
     }
 
     private queueGeneration(pending: PendingGlyph): void {
-        this.pendingGlyphs.push(pending);
+        const key = pendingKey(pending);
+        if (this.workerGlyphs.has(key)) return;
+
+        this.queue.push(key, pending, pending.priority);
 
         // Create batch promise if not exists
-        if (!this.batchPromise) {
+        if (this.config.autoProcess && !this.batchPromise) {
             this.batchPromise = Promise.resolve().then(() => this.processBatch());
         }
     }
 
     private async processBatch(): Promise<void> {
-        // Grab pending and reset
-        const batch = this.pendingGlyphs;
-        this.pendingGlyphs = [];
         this.batchPromise = null;
+        this.pump(this.config.frameBudgetMs);
+
+        // Budget spent with work left - continue next frame
+        if (this.queue.size > 0 && !this.batchPromise) {
+            this.batchPromise = nextFrame().then(() => this.processBatch());
+        }
+    }
+
+    /**
+     * Generate queued glyphs, highest priority first, until budgetMs is spent (always at
+     * least one glyph). Flushes pages and fires onGlyphsReady if anything was generated.
+     * Returns the number of glyphs generated on this thread. Call once per frame when
+     * config.autoProcess is false.
+     */
+    pump(budgetMs: number = Infinity): number {
+        const start = performance.now();
+
+        // Other code may have used the generator since the last run
+        this.loadedFontId = null;
+
+        let generated = 0;
+        let pending: PendingGlyph | undefined;
+        while ((pending = this.queue.pop())) {
+            if (this.dispatchToWorker(pending)) continue;
 
-        if (batch.length === 0) return;
+            this.generatePending([pending]);
+            generated++;
+            if (performance.now() - start >= budgetMs) break;
+        }
+
+        if (generated > 0) {
+            this.flushAndNotify();
+        }
+        return generated;
+    }
 
-        // Generate all glyphs
-        for (const pending of batch) {
-            const atlas = this.getOrCreateAtlas(pending.variantId, pending.genSize);
+    // Upload dirty pages, then report what completed since the last event
+    private flushAndNotify(): void {
+        const textures = new Set<T>();
+        for (const atlas of this.atlases.values()) {
+            atlas.flushDirtyPages(textures);
+        }
+
+        // Glyphs whose page was reclaimed again within the batch are gone - don't report them
+        const glyphs = this.readyGlyphs.filter(glyph =>
+            this.atlases.get(`${glyph.variantId}_${glyph.genSize}`)?.hasGlyph(glyph.codePoint) ?? false);
+        this.readyGlyphs = [];
+
+        // A page that grew was recreated with its pixels and is not dirty - add glyph pages too
+        for (const glyph of glyphs) {
+            if (glyph.empty) continue;
+            const location = this.atlases.get(`${glyph.variantId}_${glyph.genSize}`)?.getGlyph(glyph.codePoint);
+            if (location) textures.add(location.page.texture);
+        }
+
+        // Trim after waiters had their glyphs, sparing those and every atlas written to
+        const busy = this.getBusyAtlases(glyphs);
+        this.settleWaiters();
+        this.enforceMemoryLimits(busy);
+        this.onGlyphsReady?.({ glyphs, textures });
+    }
 
-            // Check if glyph exists in font BEFORE generating
-            this.msdf.loadFont(pending.fontBuffer);
-            if (!this.msdf.hasGlyph(pending.codePoint)) {
-                // Glyph not in font - mark as missing
-                atlas.markEmpty(pending.codePoint, true);
-                continue;
+    private glyphReady(pending: PendingGlyph, fontId: string, empty: boolean, missing: boolean, failed: boolean = false): void {
+        const { variantId, genSize, codePoint } = pending;
+        const upgrade = this.provisionalGlyphs.delete(pendingKey(pending));
+        this.readyGlyphs.push({ variantId, genSize, codePoint, fontId, empty, missing, failed, upgrade });
+    }
+
+    // Report a glyph that threw, then queue it again or give up on it
+    private glyphFailed(pending: PendingGlyph, fontId: string, error: unknown): void {
+        const attempt = pending.attempts + 1;
+        const willRetry = attempt <= this.config.maxRetries;
+        const { variantId, genSize, codePoint } = pending;
+        this.onError?.({ variantId, genSize, codePoint, fontId, error, attempt, willRetry });
+
+        if (willRetry) {
+            this.queueGeneration({ ...pending, attempts: attempt });
+            return;
+        }
+
+        // Keep the advance if the font can still tell us
+        let metrics: GlyphMetrics | undefined;
+        try {
+            metrics = this.emptyGlyphMetrics(fontId, codePoint, genSize, pending.variationAxes);
+        } catch {
+            metrics = undefined;
+        }
+        this.atlases.get(`${variantId}_${genSize}`)?.markFailed(codePoint, fontId, metrics);
+        this.glyphReady(pending, fontId, true, false, true);
+    }
+
+    // Send a pending glyph to the worker pool of the first font in its chain that has it.
+    // Returns false if it must be generated synchronously instead.
+    private dispatchToWorker(pending: PendingGlyph): boolean {
+        if (this.workerPools.size === 0) return false;
+
+        // The worker protocol has no variation axes
+        if (pending.variationAxes && pending.variationAxes.length > 0) return false;
+
+        const chain = this.getFontChain(pending.variantId, pending.fontId);
+        const fontId = chain.find(id => this.getFontInfo(id).hasGlyph(pending.codePoint));
+        const pool = fontId ? this.workerPools.get(fontId) : undefined;
+        if (!fontId || !pool || pool.workerCount === 0) return false;
+
+        const key = pendingKey(pending);
+        this.workerGlyphs.add(key);
+        const { fieldType, pixelRange } = this.getVariantOptions(pending.variantId);
+        pool.generateGlyph(pending.codePoint, pending.genSize, pixelRange, generatorType(fieldType)).then(
+            result => {
+                this.workerGlyphs.delete(key);
+                this.storeWorkerResult(pending, fontId, result);
+            },
+            () => {
+                // Pool failed (e.g. worker init) - drop it and generate on the main thread
+                this.workerGlyphs.delete(key);
+                if (this.workerPools.get(fontId) === pool) {
+                    this.workerPools.delete(fontId);
+                }
+                this.queueGeneration(pending);
             }
+        );
+        return true;
+    }
 
-            const glyph = this.generateGlyph(
-                pending.codePoint,
-                pending.genSize,
-                pending.fontBuffer,
-                pending.variationAxes
-            );
+    private storeWorkerResult(pending: PendingGlyph, fontId: string, result: GlyphWorkerResult): void {
+        // Atlas may have been destroyed (unregisterFont, dispose) while the worker ran
+        const atlas = this.atlases.get(`${pending.variantId}_${pending.genSize}`);
+        if (!atlas || !atlas.isPending(pending.codePoint)) return;
 
-            if (glyph) {
-                const rgbaPixels = this.floatToRGBA(glyph.pixels, glyph.metrics.width, glyph.metrics.height);
-                const metrics: GlyphMetrics = {
-                    width: glyph.metrics.width,
-                    height: glyph.metrics.height,
-                    advance: glyph.metrics.advance,
-                    xOffset: glyph.metrics.planeBounds.l,
-                    yOffset: glyph.metrics.planeBounds.b,
-                    planeBounds: glyph.metrics.planeBounds,
-                };
-                atlas.fillGlyph(pending.codePoint, rgbaPixels, metrics);
+        if (result.success && result.metrics && result.pixels) {
+            const { metrics, pixels } = result;
+            try {
+                const bytes = this.toPagePixels(pixels, metrics.width, metrics.height, this.getVariantOptions(pending.variantId).fieldType);
+                atlas.fillGlyph(pending.codePoint, bytes, this.toGlyphMetrics({ metrics }), fontId);
+                this.glyphReady(pending, fontId, false, false);
+            } catch (error) {
+                this.glyphFailed(pending, fontId, error);
+            }
+        } else {
+            // Glyph exists (checked before dispatch) but has no pixels (e.g., space)
+            atlas.markEmpty(pending.codePoint, false, fontId, this.emptyGlyphMetrics(fontId, pending.codePoint, pending.genSize));
+            this.glyphReady(pending, fontId, true, false);
+        }
+
+        // Results that arrive together flush and notify once
+        if (!this.workerFlushPromise) {
+            this.workerFlushPromise = Promise.resolve().then(() => {
+                this.workerFlushPromise = null;
+                this.flushAndNotify();
+            });
+        }
+    }
+
+    // Generate reserved glyphs, walking each variant's fallback chain for codepoints
+    // a font lacks. Runs in stages grouped by font so each font is loaded into WASM
+    // once per stage rather than once per glyph.
+    private generatePending(batch: PendingGlyph[]): void {
+        let stage: ChainStep[] = batch.map(pending => ({
+            pending,
+            chain: this.getFontChain(pending.variantId, pending.fontId),
+            index: 0,
+        }));
+
+        while (stage.length > 0) {
+            const byFont = new Map<string, ChainStep[]>();
+            for (const step of stage) {
+                const fontId = step.chain[step.index];
+                const group = byFont.get(fontId);
+                if (group) {
+                    group.push(step);
+                } else {
+                    byFont.set(fontId, [step]);
+                }
+            }
+
+            const next: ChainStep[] = [];
+            for (const [fontId, group] of byFont) {
+                try {
+                    this.loadFont(fontId);
+                } catch (error) {
+                    // Unknown WASM state - reload next time
+                    this.loadedFontId = null;
+                    for (const step of group) {
+                        this.glyphFailed(step.pending, fontId, error);
+                    }
+                    continue;
+                }
+
+                for (const step of group) {
+                    try {
+                        this.generateStep(step, fontId, next);
+                    } catch (error) {
+                        this.glyphFailed(step.pending, fontId, error);
+                    }
+                }
+            }
+            stage = next;
+        }
+    }
+
+    // Generate one glyph with the loaded font, or pass it on to the next font of its chain
+    private generateStep(step: ChainStep, fontId: string, next: ChainStep[]): void {
+        const { pending } = step;
+        const atlas = this.getOrCreateAtlas(pending.variantId, pending.genSize);
+
+        // Check if glyph exists in font BEFORE generating
+        if (!this.msdf.hasGlyph(pending.codePoint)) {
+            if (step.index + 1 < step.chain.length) {
+                next.push({ ...step, index: step.index + 1 });
             } else {
-                // Generation failed but glyph exists - mark as empty (e.g., space)
-                atlas.markEmpty(pending.codePoint, false);
+                // Not in any font of the chain - mark as missing
+                atlas.markEmpty(pending.codePoint, true, step.chain[0]);
+                this.glyphReady(pending, step.chain[0], true, true);
             }
+            return;
         }
 
-        // Flush all dirty pages
-        for (const atlas of this.atlases.values()) {
-            atlas.flushDirtyPages();
+        const options = this.getVariantOptions(pending.variantId);
+        const glyph = this.generateGlyph(pending.codePoint, pending.genSize, options, pending.variationAxes);
+
+        if (glyph) {
+            const pixels = this.toPagePixels(glyph.pixels, glyph.metrics.width, glyph.metrics.height, options.fieldType);
+            atlas.fillGlyph(pending.codePoint, pixels, this.toGlyphMetrics(glyph), fontId);
+            this.glyphReady(pending, fontId, false, false);
+        } else {
+            // Generation failed but glyph exists - mark as empty (e.g., space)
+            const metrics = this.emptyGlyphMetrics(fontId, pending.codePoint, pending.genSize, pending.variationAxes);
+            atlas.markEmpty(pending.codePoint, false, fontId, metrics);
+            this.glyphReady(pending, fontId, true, false);
         }
+    }
 
-        // Notify
-        this.onGlyphsReady?.();
+    /**
+     * Variant id derived from a content hash of the font and its normalized axis values
+     * (axes default to the font's registered ones, snapped to config.axisQuantization).
+     * Requests without a variantId use it, so the same font bytes at the same axes share
+     * one atlas whatever their fontId.
+     */
+    getVariantId(fontId: string, variationAxes?: VariationAxis[]): string {
+        const axes = this.snapAxes(variationAxes ?? this.getFont(fontId).options.variationAxes);
+        return `auto:${this.getVariantKey(fontId, axes)}`;
+    }
+
+    // Font hash, plus normalized coordinates (F2Dot14 units) when not at the default instance
+    private getVariantKey(fontId: string, axes?: VariationAxis[]): string {
+        const hash = this.getFontHash(fontId);
+        if (!axes || axes.length === 0) return hash;
+
+        const coords = this.getFontInfo(fontId).normalizeAxes(axes).map(coord => Math.round(coord * 0x4000));
+        return coords.some(coord => coord !== 0) ? `${hash}@${coords.join(',')}` : hash;
+    }
+
+    // Record the font and axes a variant is used with, reporting ids reused with others
+    private bindVariant(variantId: string, fontId: string, variationAxes?: VariationAxis[]): void {
+        const bound = this.variantFonts.get(variantId);
+        if (bound && bound.fontId === fontId && sameAxes(bound.variationAxes, variationAxes)) return;
+
+        this.variantFonts.set(variantId, { fontId, variationAxes });
+
+        const key = this.getVariantKey(fontId, variationAxes);
+        const identity = this.variantIdentities.get(variantId);
+        if (!identity) {
+            this.variantIdentities.set(variantId, { fontId, variationAxes, key, reported: new Set() });
+        } else if (identity.key !== key && !identity.reported.has(key)) {
+            identity.reported.add(key);
+            this.onVariantMismatch?.({
+                variantId,
+                expected: { fontId: identity.fontId, variationAxes: identity.variationAxes },
+                received: { fontId, variationAxes },
+            });
+        }
+    }
+
+    // The request font followed by the variant's registered fallbacks
+    private getFontChain(variantId: string, fontId: string): string[] {
+        const chain = [fontId];
+        for (const fallbackId of this.fallbackFonts.get(variantId) ?? []) {
+            if (this.fonts.has(fallbackId) && !chain.includes(fallbackId)) {
+                chain.push(fallbackId);
+            }
+        }
+        return chain;
     }
 
     /**
-     * Synchronously generate all Latin characters (a-z, A-Z, 0-9)
+     * Synchronously generate a charset - by default the primary charset from config.
+     * Accepts charset names / ranges or a plain codepoint list.
      * Blocks until complete. After return, getGlyph() for these chars returns cached.
      */
-    prefabLatin(variantId: string, fontSize: number, fontBuffer: Uint8Array, variationAxes?: VariationAxis[]): void {
-        const genSize = this.selectGenSize(fontSize);
+    prefabCharset(
+        variantId: string,
+        fontSize: number,
+        fontId: string,
+        charset?: CharsetSpec[] | number[],
+        variationAxes?: VariationAxis[]
+    ): void {
+        const font = this.getFont(fontId);
+        const axes = this.snapAxes(variationAxes ?? font.options.variationAxes);
+        this.bindVariant(variantId, fontId, axes);
+
+        const genSize = this.selectGenSize(fontSize, variantId, undefined, undefined, true);
         const atlas = this.getOrCreateAtlas(variantId, genSize);
+        const codePoints = !charset
+            ? this.primaryCharset.codePoints
+            : typeof charset[0] === 'number'
+                ? charset as number[]
+                : new Charset(charset as CharsetSpec[]).codePoints;
 
-        for (const codePoint of LATIN_CODEPOINTS) {
+        const batch: PendingGlyph[] = [];
+        for (const codePoint of codePoints) {
             // Skip if already cached
             if (atlas.getGlyph(codePoint)) continue;
 
-            // Check if glyph exists in font BEFORE generating
-            if (!this.msdf.hasGlyph(codePoint)) {
-                // Glyph not in font - reserve and mark as missing
-                atlas.reserveGlyph(codePoint);
-                atlas.markEmpty(codePoint, true);
-                continue;
-            }
+            // Generated here instead of by the queue if it was already requested
+            const pending = { codePoint, genSize, fontId, variationAxes: axes, variantId, priority: 0, attempts: 0 };
+            this.queue.delete(pendingKey(pending));
 
-            const glyph = this.generateGlyph(codePoint, genSize, fontBuffer, variationAxes);
-            if (glyph) {
-                const rgbaPixels = this.floatToRGBA(glyph.pixels, glyph.metrics.width, glyph.metrics.height);
-                const metrics: GlyphMetrics = {
-                    width: glyph.metrics.width,
-                    height: glyph.metrics.height,
-                    advance: glyph.metrics.advance,
-                    xOffset: glyph.metrics.planeBounds.l,
-                    yOffset: glyph.metrics.planeBounds.b,
-                    planeBounds: glyph.metrics.planeBounds,
-                };
-                atlas.addGlyph(codePoint, rgbaPixels, metrics);
+            atlas.reserveGlyph(codePoint);
+            batch.push(pending);
+        }
+
+        // Always reload - other code may have used the generator since
+        this.loadedFontId = null;
+        const reported = this.readyGlyphs.length;
+        this.generatePending(batch);
+
+        // Flush immediately - the caller knows these are ready, no event for them
+        this.enforceMemoryLimits(this.getBusyAtlases(this.readyGlyphs.slice(reported)));
+        atlas.flushDirtyPages();
+        this.readyGlyphs.length = reported;
+
+        // Some may have been awaited while queued
+        this.settleWaiters();
+    }
+
+    /**
+     * Add the glyphs of a generated sheet to a variant, at the sheet's size (json.info.size,
+     * which must be one of config.genSizes). Glyphs are copied into the variant's pages like
+     * generated ones; codepoints already cached or pending are left alone. Only page 0 of
+     * the sheet is read. The sheet's fieldType and distanceRange must match the variant's.
+     * Returns the number of glyphs added.
+     */
+    importSheet(sheet: AtlasSheet, variantId: string, fontId: string, variationAxes?: VariationAxis[]): number {
+        const font = this.getFont(fontId);
+        const { json, image, width, height } = sheet;
+        const genSize = json.info.size;
+
+        if (!this.config.genSizes.includes(genSize)) {
+            throw new Error(`Sheet size ${genSize} is not one of config.genSizes (${this.config.genSizes.join(', ')})`);
+        }
+        const options = this.getVariantOptions(variantId);
+        const range = json.distanceField?.distanceRange;
+        if (range !== undefined && range !== options.pixelRange) {
+            throw new Error(`Sheet distanceRange ${range} differs from the variant's pixelRange ${options.pixelRange}`);
+        }
+        const sheetFieldType = json.distanceField?.fieldType;
+        if (sheetFieldType !== undefined && sheetFieldType !== options.fieldType) {
+            throw new Error(`Sheet fieldType '${sheetFieldType}' differs from variant '${variantId}' fieldType '${options.fieldType}'`);
+        }
+        if (fieldTypeFormat(options.fieldType) !== 'rgba8') {
+            throw new Error(`Sheets are RGBA - variant '${variantId}' with fieldType '${options.fieldType}' can't import them`);
+        }
+        if (image.length !== width * height * 4) {
+            throw new Error(`Sheet image is ${image.length} bytes, expected ${width * height * 4} (RGBA)`);
+        }
+
+        this.bindVariant(variantId, fontId, this.snapAxes(variationAxes ?? font.options.variationAxes));
+        const atlas = this.getOrCreateAtlas(variantId, genSize);
+
+        let imported = 0;
+        for (const char of json.chars) {
+            if ((char.page ?? 0) !== 0 || atlas.getGlyph(char.id) || atlas.isPending(char.id)) continue;
+
+            const metrics = sheetGlyphMetrics(char, json.common.base);
+            if (char.width === 0 || char.height === 0) {
+                atlas.reserveGlyph(char.id);
+                atlas.markEmpty(char.id, false, fontId, metrics);
             } else {
-                // Generation failed but glyph exists - mark as empty (e.g., space)
-                atlas.reserveGlyph(codePoint);
-                atlas.markEmpty(codePoint, false);
+                atlas.addGlyph(char.id, extractSheetGlyph(sheet, char), metrics, fontId);
             }
+            imported++;
         }
 
-        // Flush immediately
         atlas.flushDirtyPages();
+        return imported;
+    }
+
+    /**
+     * Synchronously generate all Latin characters (a-z, A-Z, 0-9)
+     * @deprecated use prefabCharset()
+     */
+    prefabLatin(variantId: string, fontSize: number, fontId: string, variationAxes?: VariationAxis[]): void {
+        this.prefabCharset(variantId, fontSize, fontId, LATIN_CODEPOINTS, variationAxes);
+    }
+
+    /**
+     * Kerning between two codepoints in pixels at the given size (negative = move closer).
+     * Read from the GPOS 'kern' feature, or the legacy kern table, of the variant's font.
+     * Add to the left glyph's advance. Returns 0 for variants never requested.
+     */
+    getKerning(variantId: string, left: number, right: number, size: number): number {
+        const variant = this.variantFonts.get(variantId);
+        if (!variant) return 0;
+
+        const info = this.getFontInfo(variant.fontId);
+        return info.getKerning(left, right) * size / info.unitsPerEm;
+    }
+
+    /**
+     * Lay out a string as positioned quads: advances, kerning, newlines, wrapping to
+     * style.maxWidth, alignment and spacing. Requests any glyphs not cached yet -
+     * check complete and lay out again after onGlyphsReady.
+     */
+    layoutText(text: string, style: TextStyle): TextLayout<T> {
+        return layoutText(this, text, style);
+    }
+
+    /**
+     * Measure a single line from outline metrics (hmtx/HVAR advances, glyf bounds) without
+     * generating any glyphs. Follows the variant's fallback chain; results are cached per variant.
+     * fontId is only needed for a variant that hasn't been requested yet.
+     */
+    measureText(text: string, variantId: string, size: number, fontId?: string): TextMeasurement {
+        const variant = this.variantFonts.get(variantId) ?? (fontId ? { fontId } : null);
+        if (!variant) {
+            throw new Error(`Variant '${variantId}' has no font yet - pass fontId to measureText()`);
+        }
+        const axes = variant.variationAxes ?? this.getFont(variant.fontId).options.variationAxes;
+
+        let cache = this.measureCache.get(variantId);
+        if (!cache) {
+            cache = new Map();
+            this.measureCache.set(variantId, cache);
+        }
+
+        const advances: number[] = [];
+        const clusters: number[] = [];
+        const ink = { l: Infinity, b: Infinity, r: -Infinity, t: -Infinity };
+        let pen = 0;
+        let previous: { codePoint: number; glyph: MeasuredGlyph } | null = null;
+
+        for (let i = 0; i < text.length;) {
+            const codePoint = text.codePointAt(i)!;
+            let glyph = cache.get(codePoint);
+            if (!glyph) {
+                glyph = this.measureGlyph(variantId, variant.fontId, codePoint, axes);
+                cache.set(codePoint, glyph);
+            }
+            const scale = size / glyph.unitsPerEm;
+
+            // Kerning only between glyphs of the variant's own font
+            if (previous && previous.glyph.fontId === variant.fontId && glyph.fontId === variant.fontId) {
+                const kern = this.getFontInfo(variant.fontId).getKerning(previous.codePoint, codePoint) * scale;
+                advances[advances.length - 1] += kern;
+                pen += kern;
+            }
+
+            if (glyph.bounds) {
+                ink.l = Math.min(ink.l, pen + glyph.bounds.l * scale);
+                ink.r = Math.max(ink.r, pen + glyph.bounds.r * scale);
+                ink.b = Math.min(ink.b, glyph.bounds.b * scale);
+                ink.t = Math.max(ink.t, glyph.bounds.t * scale);
+            }
+
+            const advance = glyph.advance * scale;
+            advances.push(advance);
+            clusters.push(i);
+            pen += advance;
+            previous = { codePoint, glyph };
+            i += codePoint > 0xFFFF ? 2 : 1;
+        }
+
+        return {
+            width: pen,
+            inkBounds: ink.l <= ink.r ? ink : { l: 0, b: 0, r: 0, t: 0 },
+            advances,
+            clusters,
+        };
     }
 
+    // First font of the chain that maps the codepoint - the request font if none does
+    private measureGlyph(variantId: string, fontId: string, codePoint: number, axes?: VariationAxis[]): MeasuredGlyph {
+        const chain = this.getFontChain(variantId, fontId);
+        const supplier = chain.find(id => this.getFontInfo(id).hasGlyph(codePoint)) ?? fontId;
+        const info = this.getFontInfo(supplier);
+
+        return {
+            fontId: supplier,
+            unitsPerEm: info.unitsPerEm,
+            advance: info.getAdvance(codePoint, axes),
+            bounds: info.getGlyphBounds(codePoint),
+        };
+    }
+
+    /**
+     * Font-wide vertical metrics scaled to size (unitsPerEm stays in font units).
+     * Axes default to the font's registered axes; MVAR deltas apply where the font has them.
+     */
+    getFontMetrics(fontId: string, size: number, variationAxes?: VariationAxis[]): FontMetrics {
+        const font = this.getFont(fontId);
+        const info = this.getFontInfo(fontId);
+        const metrics = info.getMetrics(variationAxes ?? font.options.variationAxes);
+        return scaleFontMetrics(metrics, size / info.unitsPerEm);
+    }
+
+    private getFontHash(fontId: string): string {
+        const font = this.getFont(fontId);
+        if (!font.hash) {
+            font.hash = hashBytes(font.bytes);
+        }
+        return font.hash;
+    }
+
+    private getFontInfo(fontId: string): FontInfo {
+        const font = this.getFont(fontId);
+        if (!font.info) {
+            font.info = new FontInfo(font.bytes);
+        }
+        return font.info;
+    }
+
+    private getFont(fontId: string): RegisteredFont {
+        const font = this.fonts.get(fontId);
+        if (!font) {
+            throw new Error(`Font '${fontId}' is not registered - call registerFont() first`);
+        }
+        return font;
+    }
+
+    // Copy a registered font into WASM memory unless it is already there
+    private loadFont(fontId: string): void {
+        if (this.loadedFontId === fontId) return;
+        this.msdf.loadFont(this.getFont(fontId).bytes);
+        this.loadedFontId = fontId;
+    }
+
+    // Generate with the currently loaded font
     private generateGlyph(
         codePoint: number,
         fontSize: number,
-        fontBuffer: Uint8Array,
+        options: Required<VariantOptions>,
         axes?: VariationAxis[]
     ) {
-        this.msdf.loadFont(fontBuffer);
-
+        const mtsdf = generatorType(options.fieldType) === 'mtsdf';
         if (axes && axes.length > 0) {
             this.msdf.setVariationAxes(axes);
-            return this.msdf.generateMTSDFVar(codePoint, fontSize, this.config.pixelRange);
+            return mtsdf
+                ? this.msdf.generateMTSDFVar(codePoint, fontSize, options.pixelRange)
+                : this.msdf.generateVar(codePoint, fontSize, options.pixelRange);
         } else {
             this.msdf.clearVariationAxes();
-            return this.msdf.generateMTSDF(codePoint, fontSize, this.config.pixelRange);
+            return mtsdf
+                ? this.msdf.generateMTSDF(codePoint, fontSize, options.pixelRange)
+                : this.msdf.generate(codePoint, fontSize, options.pixelRange);
         }
     }
 
+    // Metrics for a glyph without pixels - only the advance, read from hmtx
+    private emptyGlyphMetrics(fontId: string, codePoint: number, genSize: number, axes?: VariationAxis[]): GlyphMetrics {
+        const info = this.getFontInfo(fontId);
+        return {
+            width: 0,
+            height: 0,
+            advance: info.getAdvance(codePoint, axes) * genSize / info.unitsPerEm,
+            xOffset: 0,
+            yOffset: 0,
+            planeBounds: { l: 0, b: 0, r: 0, t: 0 },
+        };
+    }
+
+    // Accepts an MSDFGlyph or a worker result - both carry the same metrics
+    private toGlyphMetrics(glyph: { metrics: NonNullable<GlyphWorkerResult['metrics']> }): GlyphMetrics {
+        return {
+            width: glyph.metrics.width,
+            height: glyph.metrics.height,
+            advance: glyph.metrics.advance,
+            xOffset: glyph.metrics.planeBounds.l,
+            yOffset: glyph.metrics.planeBounds.b,
+            planeBounds: glyph.metrics.planeBounds,
+        };
+    }
+
+    // Generator output → page bytes: RGBA, or R8 holding the sdf (MTSDF alpha) / psdf (MSDF median)
+    private toPagePixels(pixels: Float32Array, width: number, height: number, fieldType: FieldType): Uint8Array {
+        if (fieldTypeFormat(fieldType) === 'rgba8') {
+            return this.floatToRGBA(pixels, width, height);
+        }
+
+        const channels = pixels.length / (width * height);
+        const r8 = new Uint8Array(width * height);
+        for (let i = 0; i < width * height; i++) {
+            const p = i * channels;
+            const value = fieldType === 'sdf'
+                ? pixels[p + 3]
+                : Math.max(Math.min(pixels[p], pixels[p + 1]), Math.min(Math.max(pixels[p], pixels[p + 1]), pixels[p + 2]));
+            r8[i] = Math.max(0, Math.min(255, Math.round(value * 255)));
+        }
+        return r8;
+    }
+
     private floatToRGBA(pixels: Float32Array, width: number, height: number): Uint8Array {
         const channels = pixels.length / (width * height);
         const rgba = new Uint8Array(width * height * 4);
@@ -233,10 +1156,19 @@ export class FontAtlas<T> {
         return rgba;
     }
 
-    private locationToInfo(location: GlyphLocation<T>, genSize: number, cached: boolean): GlyphInfo<T> {
+    private locationToInfo(
+        location: GlyphLocation<T>,
+        atlas: VariantAtlas<T>,
+        cached: boolean,
+        request: GlyphRequest,
+        variationAxes?: VariationAxis[]
+    ): GlyphInfo<T> {
         const { page, x, y, width, height, metrics, empty, missing } = location;
+        const { genSize } = atlas;
+        const { fieldType, pixelRange } = this.getVariantOptions(atlas.variantId);
+        const scale = request.renderSize / genSize;
 
-        return {
+        const info: GlyphInfo<T> = {
             texture: page.texture,
             uvs: {
                 u0: x / page.width,
@@ -244,23 +1176,69 @@ export class FontAtlas<T> {
                 u1: (x + width) / page.width,
                 v1: (y + height) / page.height,
             },
+            layer: page.layer,
             metrics,
+            fieldType,
+            scaled: {
+                advance: metrics.advance * scale,
+                x: metrics.planeBounds.l * scale,
+                y: -metrics.planeBounds.t * scale,
+                width: metrics.width * scale,
+                height: metrics.height * scale,
+            },
+            pxRange: pixelRange * scale,
             genSize,
             cached,
             empty,
             missing,
+            failed: location.failed,
+            provisional: false,
+            fontId: location.fontId ?? request.fontId,
         };
+        if (variationAxes) info.variationAxes = variationAxes;
+        return info;
     }
 
-    private selectGenSize(renderSize: number): number {
+    // Ask the GenSizePolicy - request is the glyph being sized (none for prefabCharset).
+    // Only getGlyph() selects for real, lookups peek so policy state moves with rendering alone.
+    private selectGenSize(
+        renderSize: number,
+        variantId: string,
+        request?: GlyphRequest,
+        variationAxes?: VariationAxis[],
+        peek: boolean = false
+    ): number {
         const { genSizes, sizeThresholds } = this.config;
 
-        for (let i = 0; i < sizeThresholds.length; i++) {
-            if (renderSize <= sizeThresholds[i]) {
-                return genSizes[i];
-            }
+        const genSize = this.genSizePolicy.select(renderSize, {
+            variantId,
+            sizeKey: request?.sizeKey ?? variantId,
+            genSizes,
+            sizeThresholds,
+            peek,
+            isCached: size => !!request && (this.atlases.get(`${variantId}_${size}`)?.hasGlyph(request.codePoint) ?? false),
+            prefetch: size => {
+                if (!request || peek) return;
+                const atlas = this.getOrCreateAtlas(variantId, size);
+                if (atlas.hasGlyph(request.codePoint)) return;
+
+                atlas.reserveGlyph(request.codePoint);
+                this.queueGeneration({
+                    codePoint: request.codePoint,
+                    genSize: size,
+                    fontId: request.fontId,
+                    variationAxes,
+                    variantId,
+                    priority: request.priority ?? 0,
+                    attempts: 0,
+                });
+            },
+        });
+
+        if (!genSizes.includes(genSize)) {
+            throw new Error(`GenSizePolicy returned ${genSize}, which is not one of config.genSizes (${genSizes.join(', ')})`);
         }
-        return genSizes[genSizes.length - 1];
+        return genSize;
     }
 
     private getOrCreateAtlas(variantId: string, genSize: number): VariantAtlas<T> {
@@ -268,32 +1246,336 @@ export class FontAtlas<T> {
         let atlas = this.atlases.get(key);
 
         if (!atlas) {
+            const config = { ...this.config, ...this.getVariantOptions(variantId) };
             atlas = new VariantAtlas(
                 variantId,
                 genSize,
-                this.config.pageSize,
-                this.config.maxMixedPages,
-                this.textureFactory
+                config,
+                this.textureFactory,
+                this.getSharedTextureArray(fieldTypeFormat(config.fieldType)),
+                this.primaryCharset
             );
+            atlas.onPageEvicted = (texture, layer, codePoints) => {
+                if (this.readyWaiters.length > 0) {
+                    for (const codePoint of codePoints) {
+                        this.evictedWhileAwaited.add(`${key}_${codePoint}`);
+                    }
+                }
+                this.onGlyphsEvicted?.({ variantId, genSize, texture, layer, codePoints });
+            };
+            atlas.getAwaitedGlyphs = () => this.getAwaitedGlyphs(key);
+            atlas.onTextureReplaced = (event) => {
+                this.onTextureReplaced?.(event);
+            };
             this.atlases.set(key, atlas);
         }
 
         return atlas;
     }
 
+    // One array texture per page format for all pages in 'atlas-array' page mode, created on first use
+    private getSharedTextureArray(format: PageFormat): TextureArray<T> | null {
+        if (this.config.pageMode !== 'atlas-array') return null;
+
+        let array = this.sharedTextureArrays.get(format);
+        if (!array) {
+            const { pageSize } = this.config;
+            array = new TextureArray<T>(pageSize, pageSize, this.textureFactory, format);
+            array.onReplaced = (oldTexture, texture) => {
+                this.onTextureReplaced?.({ oldTexture, texture, width: pageSize, height: pageSize, reason: 'array-grow' });
+            };
+            this.sharedTextureArrays.set(format, array);
+        }
+        return array;
+    }
+
+    /**
+     * Free variant atlases, least recently used first, then their mixed and large pages,
+     * until page memory is at most targetBytes. Atlases with glyphs pending or awaited are kept.
+     * Call on memory-pressure events. Returns the bytes freed.
+     */
+    trim(targetBytes: number = 0): number {
+        const before = this.getPageBytes();
+        const busy = this.getBusyAtlases([]);
+        this.evictIdleAtlases(busy);
+        this.evictToBudget(targetBytes, 'trim', busy);
+        return before - this.getPageBytes();
+    }
+
+    // Apply config.idleTimeoutMs and config.maxMemoryBytes, sparing the atlas used last and busy ones
+    private enforceMemoryLimits(busy: Set<VariantAtlas<T>>): void {
+        this.evictIdleAtlases(busy);
+
+        const { maxMemoryBytes } = this.config;
+        if (maxMemoryBytes === undefined) return;
+
+        let current: VariantAtlas<T> | null = null;
+        for (const atlas of this.atlases.values()) {
+            if (!current || atlas.getAccessOrder() > current.getAccessOrder()) {
+                current = atlas;
+            }
+        }
+        this.evictToBudget(maxMemoryBytes, 'budget', current ? new Set([...busy, current]) : busy);
+    }
+
+    private evictIdleAtlases(busy: Set<VariantAtlas<T>>): void {
+        const { idleTimeoutMs } = this.config;
+        if (idleTimeoutMs === undefined) return;
+
+        const now = Date.now();
+        for (const atlas of [...this.atlases.values()]) {
+            if (!busy.has(atlas) && !atlas.hasPendingGlyphs() && now - atlas.getLastAccessed() >= idleTimeoutMs) {
+                this.evictAtlas(atlas, 'idle');
+            }
+        }
+    }
+
+    private evictToBudget(targetBytes: number, reason: AtlasEvictionEvent<T>['reason'], keep: Set<VariantAtlas<T>>): void {
+        // Least recently used first - atlases with pending glyphs hold placeholders, leave them,
+        // and neither atlases nor pages of kept atlases are freed
+        const candidates = [...this.atlases.values()]
+            .filter(atlas => !atlas.hasPendingGlyphs() && !keep.has(atlas))
+            .sort((a, b) => a.getAccessOrder() - b.getAccessOrder());
+
+        let bytes = this.getPageBytes();
+        for (const atlas of candidates) {
+            if (bytes <= targetBytes) return;
+            this.evictAtlas(atlas, reason);
+            bytes = this.getPageBytes();
+        }
+
+        // Still over - free pages of what is left, the primary page always stays
+        for (const atlas of candidates) {
+            if (!this.atlases.has(`${atlas.variantId}_${atlas.genSize}`)) continue;
+
+            let released;
+            while (bytes > targetBytes && (released = atlas.releaseLeastRecentPage())) {
+                this.onAtlasEvicted?.({
+                    variantId: atlas.variantId,
+                    genSize: atlas.genSize,
+                    scope: 'page',
+                    reason,
+                    textures: [released.texture],
+                    codePoints: released.codePoints,
+                });
+                bytes = this.getPageBytes();
+            }
+        }
+    }
+
+    private evictAtlas(atlas: VariantAtlas<T>, reason: AtlasEvictionEvent<T>['reason']): void {
+        const event: AtlasEvictionEvent<T> = {
+            variantId: atlas.variantId,
+            genSize: atlas.genSize,
+            scope: 'atlas',
+            reason,
+            textures: atlas.getTextures(),
+            codePoints: atlas.getCodePoints(),
+        };
+
+        atlas.destroy();
+        this.atlases.delete(`${atlas.variantId}_${atlas.genSize}`);
+        this.onAtlasEvicted?.(event);
+    }
+
+    // Page pixels in use across all variant atlases
+    private getPageBytes(): number {
+        let bytes = 0;
+        for (const atlas of this.atlases.values()) {
+            bytes += atlas.getPageBytes();
+        }
+        return bytes;
+    }
+
+    /**
+     * Snapshot of every cached glyph: page pixels, glyph index, config and the hashes of
+     * the fonts involved. Glyphs still pending are left out.
+     */
+    serialize(): AtlasSnapshot {
+        const snapshot: AtlasSnapshot = {
+            version: SNAPSHOT_VERSION,
+            config: this.getSnapshotConfig(),
+            fonts: [],
+            variants: [],
+        };
+
+        const fontIds = new Set<string>();
+        for (const atlas of this.atlases.values()) {
+            const variant = this.variantFonts.get(atlas.variantId);
+            if (!variant) continue;
+
+            const { pages, glyphs } = atlas.serialize();
+            snapshot.variants.push({
+                variantId: atlas.variantId,
+                genSize: atlas.genSize,
+                fontId: variant.fontId,
+                variationAxes: variant.variationAxes,
+                ...this.getVariantOptions(atlas.variantId),
+                pages,
+                glyphs,
+            });
+
+            fontIds.add(variant.fontId);
+            for (const glyph of glyphs) {
+                if (glyph.fontId) fontIds.add(glyph.fontId);
+            }
+        }
+
+        for (const fontId of fontIds) {
+            if (this.fonts.has(fontId)) {
+                snapshot.fonts.push({ fontId, hash: this.getFontHash(fontId) });
+            }
+        }
+        return snapshot;
+    }
+
+    /**
+     * Rebuild variant atlases from serialize() output, creating their textures through the
+     * TextureFactory. Variants already in this atlas are replaced. Every font of the snapshot
+     * must be registered with the same bytes, and the config must match - throws otherwise.
+     */
+    restore(snapshot: AtlasSnapshot): void {
+        const mismatch = this.snapshotMismatch(snapshot);
+        if (mismatch) {
+            throw new Error(`Cannot restore snapshot: ${mismatch}`);
+        }
+
+        for (const variant of snapshot.variants) {
+            const key = `${variant.variantId}_${variant.genSize}`;
+            this.atlases.get(key)?.destroy();
+            this.atlases.delete(key);
+            this.queue.filter(pending => `${pending.variantId}_${pending.genSize}` !== key);
+
+            // Variants without options of their own take the snapshot's (checked by snapshotMismatch)
+            const { fieldType, pixelRange } = variant;
+            this.variantOptions.set(variant.variantId, { fieldType, pixelRange });
+
+            const atlas = this.getOrCreateAtlas(variant.variantId, variant.genSize);
+            try {
+                atlas.restore(variant);
+            } catch (error) {
+                atlas.destroy();
+                this.atlases.delete(key);
+                throw error;
+            }
+
+            this.bindVariant(variant.variantId, variant.fontId, variant.variationAxes);
+            atlas.flushDirtyPages();
+        }
+
+        this.settleWaiters();
+    }
+
+    // Encode serialize() output into storage under key
+    async saveTo(storage: AtlasStorage, key: string = 'font-atlas'): Promise<void> {
+        await storage.save(key, encodeSnapshot(this.serialize()));
+    }
+
+    /**
+     * Restore from storage. Returns false if nothing is stored under key, the stored data is
+     * corrupt or from another snapshot version, or it was made with other fonts or config
+     * (stale cache) - nothing is changed then.
+     */
+    async loadFrom(storage: AtlasStorage, key: string = 'font-atlas'): Promise<boolean> {
+        const data = await storage.load(key);
+        if (!data) return false;
+
+        let snapshot: AtlasSnapshot;
+        try {
+            snapshot = decodeSnapshot(data);
+        } catch {
+            return false;
+        }
+        if (this.snapshotMismatch(snapshot)) return false;
+
+        this.restore(snapshot);
+        return true;
+    }
+
+    // Why a snapshot can't be restored here, or null if it can
+    private snapshotMismatch(snapshot: AtlasSnapshot): string | null {
+        if (snapshot.version !== SNAPSHOT_VERSION) {
+            return `version ${snapshot.version}, expected ${SNAPSHOT_VERSION}`;
+        }
+
+        const config = this.getSnapshotConfig();
+        for (const key of SNAPSHOT_CONFIG_KEYS) {
+            if (JSON.stringify(snapshot.config[key]) !== JSON.stringify(config[key])) {
+                return `config ${key} differs`;
+            }
+        }
+
+        for (const { fontId, hash } of snapshot.fonts) {
+            if (!this.fonts.has(fontId)) {
+                return `font '${fontId}' is not registered`;
+            }
+            if (this.getFontHash(fontId) !== hash) {
+                return `font '${fontId}' has different bytes`;
+            }
+        }
+
+        for (const variant of snapshot.variants) {
+            const options = this.getVariantOptions(variant.variantId);
+            if (variant.fieldType === options.fieldType && variant.pixelRange === options.pixelRange) continue;
+
+            // Options set here, or glyphs already generated with them, win over the snapshot
+            if (this.variantOptions.has(variant.variantId) || this.hasVariantAtlases(variant.variantId)) {
+                return `variant '${variant.variantId}' has different fieldType / pixelRange`;
+            }
+        }
+
+        // Check page sizes and glyph page indices up front so a corrupt snapshot changes nothing
+        for (const variant of snapshot.variants) {
+            const channels = pageChannels(fieldTypeFormat(variant.fieldType));
+            const page = variant.pages.find(page => page.pixels.length !== page.width * page.height * channels);
+            if (page) {
+                return `variant '${variant.variantId}' has a page of ${page.pixels.length} bytes, expected ${page.width * page.height * channels}`;
+            }
+            const glyph = variant.glyphs.find(glyph => !Number.isInteger(glyph.page) || glyph.page < 0 || glyph.page >= variant.pages.length);
+            if (glyph) {
+                return `variant '${variant.variantId}' glyph ${glyph.codePoint} refers to missing page ${glyph.page}`;
+            }
+        }
+
+        // Variant fonts are always in the font list - a snapshot without them is malformed
+        const fontIds = new Set(snapshot.fonts.map(font => font.fontId));
+        const variant = snapshot.variants.find(variant => !fontIds.has(variant.fontId));
+        return variant ? `variant '${variant.variantId}' has no font hash` : null;
+    }
+
+    private getSnapshotConfig(): AtlasSnapshot['config'] {
+        const { genSizes, sizeThresholds, pageSize, pixelRange, fieldType, packing, pageMode, initialPageSize, primaryCharsets } = this.config;
+        return { genSizes, sizeThresholds, pageSize, pixelRange, fieldType, packing, pageMode, initialPageSize, primaryCharsets };
+    }
+
     get hasPendingWork(): boolean {
-        return this.pendingGlyphs.length > 0 || this.batchPromise !== null;
+        return this.queue.size > 0 || this.batchPromise !== null || this.workerGlyphs.size > 0;
     }
 
     getStatus(): AtlasStatus {
         let pageCount = 0;
         let glyphCount = 0;
         let memoryBytes = 0;
+        let usedArea = 0;
+        let pageArea = 0;
 
         for (const atlas of this.atlases.values()) {
             pageCount += atlas.getPageCount();
             glyphCount += atlas.getGlyphCount();
             memoryBytes += atlas.getMemoryBytes();
+            usedArea += atlas.getUsedArea();
+            pageArea += atlas.getPageArea();
+        }
+
+        // Shared arrays are allocated by capacity, not per variant page
+        if (this.sharedTextureArrays.size > 0) {
+            memoryBytes = 0;
+            for (const array of this.sharedTextureArrays.values()) {
+                memoryBytes += array.getMemoryBytes();
+            }
+            for (const atlas of this.atlases.values()) {
+                memoryBytes += atlas.getLargePageBytes();
+            }
         }
 
         return {
@@ -301,6 +1583,7 @@ export class FontAtlas<T> {
             pageCount,
             glyphCount,
             memoryBytes,
+            fillRatio: pageArea > 0 ? usedArea / pageArea : 0,
         };
     }
 
@@ -309,7 +1592,183 @@ export class FontAtlas<T> {
             atlas.destroy();
         }
         this.atlases.clear();
-        this.pendingGlyphs = [];
+        this.fonts.clear();
+        this.variantFonts.clear();
+        this.variantIdentities.clear();
+        this.fallbackFonts.clear();
+        this.measureCache.clear();
+        this.workerPools.clear();
+        this.loadedFontId = null;
+        for (const array of this.sharedTextureArrays.values()) {
+            array.destroy();
+        }
+        this.sharedTextureArrays.clear();
+        this.variantOptions.clear();
+        this.queue.clear();
         this.batchPromise = null;
+        this.readyGlyphs = [];
+        this.provisionalGlyphs.clear();
+
+        const waiters = this.readyWaiters;
+        this.readyWaiters = [];
+        for (const waiter of waiters) {
+            waiter.reject(new Error('FontAtlas was disposed before the glyphs were ready'));
+        }
     }
 }
+
+// genSizes ascending, with one threshold (ascending) between each pair
+function validateGenSizes(config: AtlasConfig): void {
+    const { genSizes, sizeThresholds } = config;
+
+    if (genSizes.length === 0) {
+        throw new Error('config.genSizes must not be empty');
+    }
+    if (!isAscending(genSizes) || genSizes[0] <= 0) {
+        throw new Error(`config.genSizes must be positive and ascending, got [${genSizes.join(', ')}]`);
+    }
+    if (sizeThresholds.length !== genSizes.length - 1) {
+        throw new Error(`config.sizeThresholds must have one entry fewer than genSizes, got ${sizeThresholds.length} for ${genSizes.length}`);
+    }
+    if (!isAscending(sizeThresholds)) {
+        throw new Error(`config.sizeThresholds must be ascending, got [${sizeThresholds.join(', ')}]`);
+    }
+}
+
+function isAscending(values: number[]): boolean {
+    return values.every((value, i) => i === 0 || value > values[i - 1]);
+}
+
+/**
+ * Snap axis values to their quantization grid. Without blend every axis takes its nearest
+ * instance. With blend, the first quantized axis lying between two instances is split into
+ * lower / upper with weight the position between them; the rest still snap to nearest.
+ */
+function quantizeAxes(
+    axes: VariationAxis[] | undefined,
+    quantization: Record<string, AxisQuantization> | undefined,
+    blend: boolean
+): AxisInstances {
+    if (!axes || !quantization) return { lower: axes, upper: axes, weight: 0 };
+
+    const lower: VariationAxis[] = [];
+    const upper: VariationAxis[] = [];
+    let weight = 0;
+    let blended = !blend;
+
+    for (const axis of axes) {
+        const grid = quantization[axis.tag];
+        if (grid === undefined) {
+            lower.push(axis);
+            upper.push(axis);
+            continue;
+        }
+
+        const [below, above] = bracketValue(axis.value, grid);
+        if (!blended && above > below) {
+            blended = true;
+            weight = (axis.value - below) / (above - below);
+            lower.push({ tag: axis.tag, value: below });
+            upper.push({ tag: axis.tag, value: above });
+        } else {
+            const value = axis.value - below <= above - axis.value ? below : above;
+            lower.push({ tag: axis.tag, value });
+            upper.push({ tag: axis.tag, value });
+        }
+    }
+
+    return weight > 0 ? { lower, upper, weight } : { lower, upper: lower, weight: 0 };
+}
+
+// Nearest grid values at or below / at or above value (equal at or beyond the ends)
+function bracketValue(value: number, grid: AxisQuantization): [number, number] {
+    if (typeof grid === 'number') {
+        // Snap within float error so values on the grid (0.3 with step 0.1) don't bracket
+        const steps = value / grid;
+        const nearest = Math.round(steps);
+        if (Math.abs(steps - nearest) < GRID_EPSILON) {
+            const snapped = gridValue(nearest, grid);
+            return [snapped, snapped];
+        }
+        const index = Math.floor(steps);
+        return [gridValue(index, grid), gridValue(index + 1, grid)];
+    }
+
+    if (value <= grid[0]) return [grid[0], grid[0]];
+    for (let i = 1; i < grid.length; i++) {
+        if (value <= grid[i]) return value === grid[i] ? [value, value] : [grid[i - 1], grid[i]];
+    }
+    return [grid[grid.length - 1], grid[grid.length - 1]];
+}
+
+// index * step without the float noise (3 * 0.1 is 0.30000000000000004)
+function gridValue(index: number, step: number): number {
+    return parseFloat((index * step).toPrecision(12));
+}
+
+// sdf is read from the MTSDF alpha channel, psdf from the MSDF channels
+function generatorType(fieldType: FieldType): 'msdf' | 'mtsdf' {
+    return fieldType === 'mtsdf' || fieldType === 'sdf' ? 'mtsdf' : 'msdf';
+}
+
+// Cached, along with the second instance of a blended request
+function isReady<T>(info: GlyphInfo<T>): boolean {
+    return info.cached && (!info.blend || info.blend.to.cached);
+}
+
+function sameAxes(a: VariationAxis[] | undefined, b: VariationAxis[] | undefined): boolean {
+    if (a === b) return true;
+    if (!a || !b || a.length !== b.length) return false;
+    return a.every((axis, i) => axis.tag === b[i].tag && axis.value === b[i].value);
+}
+
+// Queue key - one pending generation per glyph of a variant atlas
+function pendingKey(pending: PendingGlyph): string {
+    return `${pending.variantId}_${pending.genSize}_${pending.codePoint}`;
+}
+
+// BMFont char → GlyphMetrics. The sheet has no bottom/right edges - they follow from the bitmap size.
+function sheetGlyphMetrics(char: AtlasChar, base: number): GlyphMetrics {
+    if (char.width === 0 || char.height === 0) {
+        return { width: 0, height: 0, advance: char.xadvance, xOffset: 0, yOffset: 0, planeBounds: { l: 0, b: 0, r: 0, t: 0 } };
+    }
+
+    const l = char.xoffset;
+    const t = base - char.yoffset;
+    const planeBounds = { l, b: t - char.height, r: l + char.width, t };
+    return {
+        width: char.width,
+        height: char.height,
+        advance: char.xadvance,
+        xOffset: planeBounds.l,
+        yOffset: planeBounds.b,
+        planeBounds,
+    };
+}
+
+// Copy a char's rect out of the sheet, bottom row first like generator output
+function extractSheetGlyph(sheet: AtlasSheet, char: AtlasChar): Uint8Array {
+    const { x, y, width, height } = char;
+    if (x < 0 || y < 0 || x + width > sheet.width || y + height > sheet.height) {
+        throw new Error(`Sheet char ${char.id} lies outside the ${sheet.width}x${sheet.height} image`);
+    }
+
+    const pixels = new Uint8Array(width * height * 4);
+    const rowBytes = width * 4;
+    for (let row = 0; row < height; row++) {
+        const src = ((y + height - 1 - row) * sheet.width + x) * 4;
+        pixels.set(sheet.image.subarray(src, src + rowBytes), row * rowBytes);
+    }
+    return pixels;
+}
+
+// Next animation frame in browsers, next macrotask elsewhere
+function nextFrame(): Promise<void> {
+    return new Promise(resolve => {
+        if (typeof requestAnimationFrame === 'function') {
+            requestAnimationFrame(() => resolve());
+        } else {
+            setTimeout(resolve, 0);
+        }
+    });
+}
@@ -0,0 +1,735 @@
+/**
+ * FontInfo - Minimal sfnt (TrueType / OpenType) table reader
+ *
+ * Reads the layout data msdfgen doesn't expose, straight from the font bytes:
+ * - cmap (formats 4 and 12): codepoint → glyph id
+ * - head: unitsPerEm
+ * - hmtx / HVAR: advance widths
+ * - loca / glyf: outline bounds (TrueType outlines only)
+ * - kern (format 0) and GPOS pair adjustment (lookup type 2, formats 1 and 2)
+ * - hhea / OS/2 / post vertical metrics, varied through fvar / avar / MVAR
+ *
+ * All values are in font units - scale by size / unitsPerEm.
+ */
+
+import type { VariationAxis } from '../lib/kitMSDF/kitMSDF.js';
+import type { FontMetrics } from './types.js';
+
+interface TableRecord {
+    offset: number;
+    length: number;
+}
+
+// GPOS pair adjustment subtable, parsed lazily per lookup
+interface PairSubtable {
+    offset: number;
+    format: number;
+    coverage: number;       // absolute offset of the coverage table
+    valueFormat1: number;
+    valueFormat2: number;
+}
+
+// Variation axis from fvar, values in user units
+interface AxisRecord {
+    tag: string;
+    min: number;
+    default: number;
+    max: number;
+}
+
+// ValueRecord field bits, in record order
+const VALUE_X_PLACEMENT = 0x0001;
+const VALUE_Y_PLACEMENT = 0x0002;
+const VALUE_X_ADVANCE = 0x0004;
+
+const GPOS_PAIR_ADJUSTMENT = 2;
+const GPOS_EXTENSION = 9;
+
+// OS/2 fsSelection: ascender/descender/lineGap should come from the typo fields
+const USE_TYPO_METRICS = 0x0080;
+
+export class FontInfo {
+
+    readonly unitsPerEm: number;
+
+    private view: DataView;
+    private tables: Map<string, TableRecord> = new Map();
+    private cmap: Map<number, number> = new Map();
+    private kernPairs: Map<number, number> | null = null;   // kern table, (left << 16 | right) → value
+    private pairSubtables: PairSubtable[][] | null = null;  // GPOS 'kern' lookups
+    private kerningCache: Map<number, number> = new Map();
+    private axes: AxisRecord[] = [];
+
+    constructor(bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+        const numTables = this.view.getUint16(4);
+        for (let i = 0; i < numTables; i++) {
+            const record = 12 + i * 16;
+            this.tables.set(this.tag(record), {
+                offset: this.view.getUint32(record + 8),
+                length: this.view.getUint32(record + 12),
+            });
+        }
+
+        const head = this.tables.get('head');
+        if (!head) {
+            throw new Error('Font has no head table');
+        }
+        this.unitsPerEm = this.view.getUint16(head.offset + 18);
+
+        this.parseCmap();
+        this.parseFvar();
+    }
+
+    hasTable(tag: string): boolean {
+        return this.tables.has(tag);
+    }
+
+    // Glyph id for a codepoint, 0 (.notdef) if the font doesn't map it
+    glyphIndex(codePoint: number): number {
+        return this.cmap.get(codePoint) ?? 0;
+    }
+
+    hasGlyph(codePoint: number): boolean {
+        return this.glyphIndex(codePoint) !== 0;
+    }
+
+    // Advance width in font units, 0 for unmapped codepoints. With axes, HVAR deltas apply.
+    getAdvance(codePoint: number, axes?: VariationAxis[]): number {
+        const glyph = this.glyphIndex(codePoint);
+        const hhea = this.tables.get('hhea');
+        const hmtx = this.tables.get('hmtx');
+        if (glyph === 0 || !hhea || !hmtx) return 0;
+
+        // Glyphs past numberOfHMetrics share the last advance
+        const numberOfHMetrics = this.view.getUint16(hhea.offset + 34);
+        if (numberOfHMetrics === 0) return 0;
+        const advance = this.view.getUint16(hmtx.offset + Math.min(glyph, numberOfHMetrics - 1) * 4);
+
+        return axes && axes.length > 0
+            ? advance + this.advanceDelta(glyph, this.normalizeAxes(axes))
+            : advance;
+    }
+
+    /**
+     * Outline bounds in font units (y up from the baseline), null for glyphs without
+     * contours (space) and for CFF fonts. Default instance only - gvar is not applied.
+     */
+    getGlyphBounds(codePoint: number): { l: number; b: number; r: number; t: number } | null {
+        const glyph = this.glyphIndex(codePoint);
+        const head = this.tables.get('head')!;
+        const loca = this.tables.get('loca');
+        const glyf = this.tables.get('glyf');
+        if (glyph === 0 || !loca || !glyf) return null;
+
+        const longOffsets = this.view.getInt16(head.offset + 50) === 1;
+        const start = longOffsets ? this.view.getUint32(loca.offset + glyph * 4) : this.view.getUint16(loca.offset + glyph * 2) * 2;
+        const end = longOffsets ? this.view.getUint32(loca.offset + glyph * 4 + 4) : this.view.getUint16(loca.offset + glyph * 2 + 2) * 2;
+        if (end <= start) return null;
+
+        const header = glyf.offset + start;
+        return {
+            l: this.view.getInt16(header + 2),
+            b: this.view.getInt16(header + 4),
+            r: this.view.getInt16(header + 6),
+            t: this.view.getInt16(header + 8),
+        };
+    }
+
+    /**
+     * Horizontal kerning between two codepoints in font units (negative = tighter).
+     * GPOS 'kern' lookups take precedence; the legacy kern table is used when there are none.
+     */
+    getKerning(left: number, right: number): number {
+        const leftGlyph = this.glyphIndex(left);
+        const rightGlyph = this.glyphIndex(right);
+        if (leftGlyph === 0 || rightGlyph === 0) return 0;
+
+        const key = leftGlyph * 0x10000 + rightGlyph;
+        let value = this.kerningCache.get(key);
+        if (value === undefined) {
+            const lookups = this.getPairSubtables();
+            value = lookups.length > 0
+                ? this.gposKerning(lookups, leftGlyph, rightGlyph)
+                : this.getKernPairs().get(key) ?? 0;
+            this.kerningCache.set(key, value);
+        }
+        return value;
+    }
+
+    // Can this codepoint start a kerning pair at all? Cheap pre-check for pair enumeration
+    hasKerning(left: number): boolean {
+        const glyph = this.glyphIndex(left);
+        if (glyph === 0) return false;
+
+        const lookups = this.getPairSubtables();
+        if (lookups.length > 0) {
+            return lookups.some(lookup => lookup.some(sub => this.coverageIndex(sub.coverage, glyph) >= 0));
+        }
+        for (const key of this.getKernPairs().keys()) {
+            if (Math.floor(key / 0x10000) === glyph) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Vertical metrics in font units. Ascender/descender/lineGap come from hhea unless the
+     * font sets USE_TYPO_METRICS. With axes, MVAR deltas are applied when the font has them.
+     */
+    getMetrics(axes?: VariationAxis[]): FontMetrics {
+        const hhea = this.tables.get('hhea');
+        const os2 = this.tables.get('OS/2');
+        const post = this.tables.get('post');
+
+        let ascender = hhea ? this.view.getInt16(hhea.offset + 4) : 0;
+        let descender = hhea ? this.view.getInt16(hhea.offset + 6) : 0;
+        let lineGap = hhea ? this.view.getInt16(hhea.offset + 8) : 0;
+        let ascenderTag = 'hasc', descenderTag = 'hdsc', lineGapTag = 'hlgp';
+        let capHeight = 0;
+        let xHeight = 0;
+
+        if (os2) {
+            const version = this.view.getUint16(os2.offset);
+            const fsSelection = this.view.getUint16(os2.offset + 62);
+            if ((fsSelection & USE_TYPO_METRICS) || (ascender === 0 && descender === 0)) {
+                ascender = this.view.getInt16(os2.offset + 68);
+                descender = this.view.getInt16(os2.offset + 70);
+                lineGap = this.view.getInt16(os2.offset + 72);
+                ascenderTag = 'tasc'; descenderTag = 'tdsc'; lineGapTag = 'tlgp';
+            }
+            if (version >= 2) {
+                xHeight = this.view.getInt16(os2.offset + 86);
+                capHeight = this.view.getInt16(os2.offset + 88);
+            }
+        }
+
+        let underlinePosition = post ? this.view.getInt16(post.offset + 8) : 0;
+        let underlineThickness = post ? this.view.getInt16(post.offset + 10) : 0;
+
+        const coords = axes && axes.length > 0 ? this.normalizeAxes(axes) : null;
+        if (coords) {
+            const deltas = this.getMetricDeltas(coords);
+            ascender += deltas.get(ascenderTag) ?? 0;
+            descender += deltas.get(descenderTag) ?? 0;
+            lineGap += deltas.get(lineGapTag) ?? 0;
+            capHeight += deltas.get('cpht') ?? 0;
+            xHeight += deltas.get('xhgt') ?? 0;
+            underlinePosition += deltas.get('undo') ?? 0;
+            underlineThickness += deltas.get('unds') ?? 0;
+        }
+
+        return {
+            unitsPerEm: this.unitsPerEm,
+            ascender,
+            descender,
+            lineGap,
+            lineHeight: ascender - descender + lineGap,
+            capHeight,
+            xHeight,
+            underlinePosition,
+            underlineThickness,
+        };
+    }
+
+    // ==================== cmap ====================
+
+    private parseCmap(): void {
+        const cmap = this.tables.get('cmap');
+        if (!cmap) return;
+
+        // Prefer full-repertoire format 12 over BMP-only format 4
+        let best = -1;
+        let bestFormat = 0;
+        const numSubtables = this.view.getUint16(cmap.offset + 2);
+        for (let i = 0; i < numSubtables; i++) {
+            const record = cmap.offset + 4 + i * 8;
+            const platformId = this.view.getUint16(record);
+            const encodingId = this.view.getUint16(record + 2);
+            const offset = cmap.offset + this.view.getUint32(record + 4);
+            const format = this.view.getUint16(offset);
+
+            const unicode = platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+            if (!unicode || (format !== 4 && format !== 12)) continue;
+            if (format > bestFormat) {
+                best = offset;
+                bestFormat = format;
+            }
+        }
+
+        if (bestFormat === 12) {
+            this.parseCmap12(best);
+        } else if (bestFormat === 4) {
+            this.parseCmap4(best);
+        }
+    }
+
+    private parseCmap4(offset: number): void {
+        const segCount = this.view.getUint16(offset + 6) / 2;
+        const endCodes = offset + 14;
+        const startCodes = endCodes + segCount * 2 + 2;
+        const idDeltas = startCodes + segCount * 2;
+        const idRangeOffsets = idDeltas + segCount * 2;
+
+        for (let i = 0; i < segCount; i++) {
+            const end = this.view.getUint16(endCodes + i * 2);
+            const start = this.view.getUint16(startCodes + i * 2);
+            const delta = this.view.getInt16(idDeltas + i * 2);
+            const rangeOffset = this.view.getUint16(idRangeOffsets + i * 2);
+
+            for (let code = start; code <= end && code !== 0xFFFF; code++) {
+                let glyph: number;
+                if (rangeOffset === 0) {
+                    glyph = (code + delta) & 0xFFFF;
+                } else {
+                    const glyphOffset = idRangeOffsets + i * 2 + rangeOffset + (code - start) * 2;
+                    glyph = this.view.getUint16(glyphOffset);
+                    if (glyph !== 0) glyph = (glyph + delta) & 0xFFFF;
+                }
+                if (glyph !== 0) this.cmap.set(code, glyph);
+            }
+        }
+    }
+
+    private parseCmap12(offset: number): void {
+        const numGroups = this.view.getUint32(offset + 12);
+        for (let i = 0; i < numGroups; i++) {
+            const group = offset + 16 + i * 12;
+            const start = this.view.getUint32(group);
+            const end = this.view.getUint32(group + 4);
+            const startGlyph = this.view.getUint32(group + 8);
+            for (let code = start; code <= end; code++) {
+                this.cmap.set(code, startGlyph + code - start);
+            }
+        }
+    }
+
+    // ==================== kern ====================
+
+    private getKernPairs(): Map<number, number> {
+        if (this.kernPairs) return this.kernPairs;
+        this.kernPairs = new Map();
+
+        const kern = this.tables.get('kern');
+        if (!kern) return this.kernPairs;
+
+        // Only the Microsoft (version 0) layout is supported
+        if (this.view.getUint16(kern.offset) !== 0) return this.kernPairs;
+
+        const nTables = this.view.getUint16(kern.offset + 2);
+        let subtable = kern.offset + 4;
+        for (let i = 0; i < nTables; i++) {
+            const length = this.view.getUint16(subtable + 2);
+            const coverage = this.view.getUint16(subtable + 4);
+            const format = coverage >> 8;
+            const horizontal = (coverage & 0x1) !== 0;
+            const crossStream = (coverage & 0x4) !== 0;
+
+            if (format === 0 && horizontal && !crossStream) {
+                const nPairs = this.view.getUint16(subtable + 6);
+                const minimum = (coverage & 0x2) !== 0;
+                const override = (coverage & 0x8) !== 0;
+                for (let p = 0; p < nPairs; p++) {
+                    const pair = subtable + 14 + p * 6;
+                    const key = this.view.getUint16(pair) * 0x10000 + this.view.getUint16(pair + 2);
+                    const value = this.view.getInt16(pair + 4);
+                    const previous = this.kernPairs.get(key) ?? 0;
+                    this.kernPairs.set(key, override ? value : minimum ? Math.min(previous, value) : previous + value);
+                }
+            }
+            subtable += length;
+        }
+        return this.kernPairs;
+    }
+
+    // ==================== GPOS ====================
+
+    // Pair adjustment subtables of every lookup the 'kern' feature references, in lookup order
+    private getPairSubtables(): PairSubtable[][] {
+        if (this.pairSubtables) return this.pairSubtables;
+        this.pairSubtables = [];
+
+        const gpos = this.tables.get('GPOS');
+        if (!gpos) return this.pairSubtables;
+
+        const featureList = gpos.offset + this.view.getUint16(gpos.offset + 6);
+        const lookupList = gpos.offset + this.view.getUint16(gpos.offset + 8);
+
+        // Any script / language system - collect the union of 'kern' lookups
+        const lookupIndices = new Set<number>();
+        const featureCount = this.view.getUint16(featureList);
+        for (let i = 0; i < featureCount; i++) {
+            const record = featureList + 2 + i * 6;
+            if (this.tag(record) !== 'kern') continue;
+
+            const feature = featureList + this.view.getUint16(record + 4);
+            const indexCount = this.view.getUint16(feature + 2);
+            for (let j = 0; j < indexCount; j++) {
+                lookupIndices.add(this.view.getUint16(feature + 4 + j * 2));
+            }
+        }
+
+        const lookupCount = this.view.getUint16(lookupList);
+        for (const index of [...lookupIndices].sort((a, b) => a - b)) {
+            if (index >= lookupCount) continue;
+
+            const lookup = lookupList + this.view.getUint16(lookupList + 2 + index * 2);
+            const lookupType = this.view.getUint16(lookup);
+            const subtableCount = this.view.getUint16(lookup + 4);
+
+            const subtables: PairSubtable[] = [];
+            for (let j = 0; j < subtableCount; j++) {
+                let subtable = lookup + this.view.getUint16(lookup + 6 + j * 2);
+                let type = lookupType;
+
+                if (type === GPOS_EXTENSION) {
+                    type = this.view.getUint16(subtable + 2);
+                    subtable += this.view.getUint32(subtable + 4);
+                }
+                if (type !== GPOS_PAIR_ADJUSTMENT) continue;
+
+                const format = this.view.getUint16(subtable);
+                if (format !== 1 && format !== 2) continue;
+
+                subtables.push({
+                    offset: subtable,
+                    format,
+                    coverage: subtable + this.view.getUint16(subtable + 2),
+                    valueFormat1: this.view.getUint16(subtable + 4),
+                    valueFormat2: this.view.getUint16(subtable + 6),
+                });
+            }
+            if (subtables.length > 0) {
+                this.pairSubtables.push(subtables);
+            }
+        }
+        return this.pairSubtables;
+    }
+
+    // Sum of every lookup's adjustment - within a lookup the first subtable that applies wins
+    private gposKerning(lookups: PairSubtable[][], left: number, right: number): number {
+        let total = 0;
+        for (const subtables of lookups) {
+            for (const sub of subtables) {
+                const coverageIndex = this.coverageIndex(sub.coverage, left);
+                if (coverageIndex < 0) continue;
+
+                const value = sub.format === 1
+                    ? this.pairPosFormat1(sub, coverageIndex, right)
+                    : this.pairPosFormat2(sub, left, right);
+                if (value !== null) {
+                    total += value;
+                    break;
+                }
+            }
+        }
+        return total;
+    }
+
+    // Individual glyph pairs - null if the pair isn't listed so the next subtable is tried
+    private pairPosFormat1(sub: PairSubtable, coverageIndex: number, right: number): number | null {
+        const pairSetCount = this.view.getUint16(sub.offset + 8);
+        if (coverageIndex >= pairSetCount) return null;
+
+        const pairSet = sub.offset + this.view.getUint16(sub.offset + 10 + coverageIndex * 2);
+        const recordSize = 2 + valueRecordSize(sub.valueFormat1) + valueRecordSize(sub.valueFormat2);
+
+        // Records are sorted by second glyph
+        let lo = 0;
+        let hi = this.view.getUint16(pairSet) - 1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            const record = pairSet + 2 + mid * recordSize;
+            const glyph = this.view.getUint16(record);
+            if (glyph < right) {
+                lo = mid + 1;
+            } else if (glyph > right) {
+                hi = mid - 1;
+            } else {
+                return this.xAdvance(record + 2, sub.valueFormat1);
+            }
+        }
+        return null;
+    }
+
+    // Class pairs - a covered glyph always applies, class 0 included
+    private pairPosFormat2(sub: PairSubtable, left: number, right: number): number {
+        const classDef1 = sub.offset + this.view.getUint16(sub.offset + 8);
+        const classDef2 = sub.offset + this.view.getUint16(sub.offset + 10);
+        const class1Count = this.view.getUint16(sub.offset + 12);
+        const class2Count = this.view.getUint16(sub.offset + 14);
+
+        const class1 = this.glyphClass(classDef1, left);
+        const class2 = this.glyphClass(classDef2, right);
+        if (class1 >= class1Count || class2 >= class2Count) return 0;
+
+        const size1 = valueRecordSize(sub.valueFormat1);
+        const recordSize = size1 + valueRecordSize(sub.valueFormat2);
+        const record = sub.offset + 16 + (class1 * class2Count + class2) * recordSize;
+        return this.xAdvance(record, sub.valueFormat1);
+    }
+
+    // XAdvance of a ValueRecord, 0 if the record doesn't carry one
+    private xAdvance(record: number, valueFormat: number): number {
+        if (!(valueFormat & VALUE_X_ADVANCE)) return 0;
+        const skip = (valueFormat & VALUE_X_PLACEMENT ? 2 : 0) + (valueFormat & VALUE_Y_PLACEMENT ? 2 : 0);
+        return this.view.getInt16(record + skip);
+    }
+
+    // Coverage index of a glyph, -1 if not covered
+    private coverageIndex(coverage: number, glyph: number): number {
+        const format = this.view.getUint16(coverage);
+        const count = this.view.getUint16(coverage + 2);
+
+        let lo = 0;
+        let hi = count - 1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (format === 1) {
+                const value = this.view.getUint16(coverage + 4 + mid * 2);
+                if (value < glyph) lo = mid + 1;
+                else if (value > glyph) hi = mid - 1;
+                else return mid;
+            } else {
+                const range = coverage + 4 + mid * 6;
+                const start = this.view.getUint16(range);
+                const end = this.view.getUint16(range + 2);
+                if (end < glyph) lo = mid + 1;
+                else if (start > glyph) hi = mid - 1;
+                else return this.view.getUint16(range + 4) + glyph - start;
+            }
+        }
+        return -1;
+    }
+
+    // Class of a glyph in a ClassDef table, 0 if unassigned
+    private glyphClass(classDef: number, glyph: number): number {
+        const format = this.view.getUint16(classDef);
+
+        if (format === 1) {
+            const startGlyph = this.view.getUint16(classDef + 2);
+            const glyphCount = this.view.getUint16(classDef + 4);
+            const index = glyph - startGlyph;
+            return index >= 0 && index < glyphCount ? this.view.getUint16(classDef + 6 + index * 2) : 0;
+        }
+
+        if (format === 2) {
+            let lo = 0;
+            let hi = this.view.getUint16(classDef + 2) - 1;
+            while (lo <= hi) {
+                const mid = (lo + hi) >> 1;
+                const range = classDef + 4 + mid * 6;
+                const start = this.view.getUint16(range);
+                const end = this.view.getUint16(range + 2);
+                if (end < glyph) lo = mid + 1;
+                else if (start > glyph) hi = mid - 1;
+                else return this.view.getUint16(range + 4);
+            }
+        }
+        return 0;
+    }
+
+    // ==================== Variations ====================
+
+    private parseFvar(): void {
+        const fvar = this.tables.get('fvar');
+        if (!fvar) return;
+
+        const axesOffset = fvar.offset + this.view.getUint16(fvar.offset + 4);
+        const axisCount = this.view.getUint16(fvar.offset + 8);
+        const axisSize = this.view.getUint16(fvar.offset + 10);
+        for (let i = 0; i < axisCount; i++) {
+            const record = axesOffset + i * axisSize;
+            this.axes.push({
+                tag: this.tag(record),
+                min: this.view.getInt32(record + 4) / 0x10000,
+                default: this.view.getInt32(record + 8) / 0x10000,
+                max: this.view.getInt32(record + 12) / 0x10000,
+            });
+        }
+    }
+
+    // User axis values → normalized coordinates (-1..1) in fvar order, avar applied.
+    // Axes the font doesn't have are ignored; missing ones stay at their default (0).
+    normalizeAxes(axes: VariationAxis[]): number[] {
+        const coords = this.axes.map(axis => {
+            const requested = axes.find(a => a.tag === axis.tag);
+            if (!requested) return 0;
+
+            const value = Math.min(axis.max, Math.max(axis.min, requested.value));
+            if (value < axis.default) {
+                return axis.default === axis.min ? 0 : (value - axis.default) / (axis.default - axis.min);
+            }
+            return axis.max === axis.default ? 0 : (value - axis.default) / (axis.max - axis.default);
+        });
+
+        const avar = this.tables.get('avar');
+        if (!avar) return coords;
+
+        // Piecewise linear segment maps, one per axis
+        let segmentMap = avar.offset + 8;
+        const axisCount = Math.min(this.view.getUint16(avar.offset + 6), coords.length);
+        for (let i = 0; i < axisCount; i++) {
+            const count = this.view.getUint16(segmentMap);
+            const from = (j: number) => this.view.getInt16(segmentMap + 2 + j * 4) / 0x4000;
+            const to = (j: number) => this.view.getInt16(segmentMap + 4 + j * 4) / 0x4000;
+
+            for (let j = 1; j < count; j++) {
+                if (coords[i] <= from(j)) {
+                    const t = from(j) === from(j - 1) ? 0 : (coords[i] - from(j - 1)) / (from(j) - from(j - 1));
+                    coords[i] = to(j - 1) + t * (to(j) - to(j - 1));
+                    break;
+                }
+            }
+            segmentMap += 2 + count * 4;
+        }
+        return coords;
+    }
+
+    // HVAR advance delta for a glyph, 0 if the font has no HVAR
+    private advanceDelta(glyph: number, coords: number[]): number {
+        const hvar = this.tables.get('HVAR');
+        if (!hvar) return 0;
+
+        const store = hvar.offset + this.view.getUint32(hvar.offset + 4);
+        const mappingOffset = this.view.getUint32(hvar.offset + 8);
+
+        // Without a mapping the glyph id is the inner index of the first data set
+        let outer = 0;
+        let inner = glyph;
+        if (mappingOffset !== 0) {
+            const map = hvar.offset + mappingOffset;
+            const format = this.view.getUint8(map);
+            const entryFormat = this.view.getUint8(map + 1);
+            const mapCount = format === 0 ? this.view.getUint16(map + 2) : this.view.getUint32(map + 2);
+            const data = map + (format === 0 ? 4 : 6);
+            const entrySize = ((entryFormat & 0x30) >> 4) + 1;
+            const innerBits = (entryFormat & 0x0F) + 1;
+            if (mapCount === 0) return 0;
+
+            const index = Math.min(glyph, mapCount - 1);
+            let entry = 0;
+            for (let i = 0; i < entrySize; i++) {
+                entry = entry * 256 + this.view.getUint8(data + index * entrySize + i);
+            }
+            outer = Math.floor(entry / (1 << innerBits));
+            inner = entry & ((1 << innerBits) - 1);
+        }
+        return this.itemDelta(store, outer, inner, coords);
+    }
+
+    // MVAR value tag → delta at the given normalized coordinates
+    private getMetricDeltas(coords: number[]): Map<string, number> {
+        const deltas = new Map<string, number>();
+        const mvar = this.tables.get('MVAR');
+        if (!mvar) return deltas;
+
+        const recordSize = this.view.getUint16(mvar.offset + 6);
+        const recordCount = this.view.getUint16(mvar.offset + 8);
+        const storeOffset = this.view.getUint16(mvar.offset + 10);
+        if (storeOffset === 0) return deltas;
+
+        for (let i = 0; i < recordCount; i++) {
+            const record = mvar.offset + 12 + i * recordSize;
+            const outer = this.view.getUint16(record + 4);
+            const inner = this.view.getUint16(record + 6);
+            deltas.set(this.tag(record), this.itemDelta(mvar.offset + storeOffset, outer, inner, coords));
+        }
+        return deltas;
+    }
+
+    // Interpolated delta of one item in an ItemVariationStore
+    private itemDelta(store: number, outer: number, inner: number, coords: number[]): number {
+        const regionList = store + this.view.getUint32(store + 2);
+        const dataCount = this.view.getUint16(store + 6);
+        if (outer >= dataCount) return 0;
+
+        const data = store + this.view.getUint32(store + 8 + outer * 4);
+        const itemCount = this.view.getUint16(data);
+        const wordDeltaCount = this.view.getUint16(data + 2);
+        const regionIndexCount = this.view.getUint16(data + 4);
+        if (inner >= itemCount) return 0;
+
+        // Deltas are int16 + int8, or int32 + int16 with the LONG_WORDS flag
+        const longWords = (wordDeltaCount & 0x8000) !== 0;
+        const wordCount = wordDeltaCount & 0x7FFF;
+        const wordSize = longWords ? 4 : 2;
+        const smallSize = longWords ? 2 : 1;
+        const rowSize = wordCount * wordSize + (regionIndexCount - wordCount) * smallSize;
+
+        let delta = 0;
+        let cursor = data + 6 + regionIndexCount * 2 + inner * rowSize;
+        for (let i = 0; i < regionIndexCount; i++) {
+            let value: number;
+            if (i < wordCount) {
+                value = longWords ? this.view.getInt32(cursor) : this.view.getInt16(cursor);
+                cursor += wordSize;
+            } else {
+                value = longWords ? this.view.getInt16(cursor) : this.view.getInt8(cursor);
+                cursor += smallSize;
+            }
+
+            const region = this.view.getUint16(data + 6 + i * 2);
+            const scalar = this.regionScalar(regionList, region, coords);
+            delta += value * scalar;
+        }
+        return delta;
+    }
+
+    // Contribution (0-1) of a variation region at the given coordinates
+    private regionScalar(regionList: number, region: number, coords: number[]): number {
+        const axisCount = this.view.getUint16(regionList);
+        const regionOffset = regionList + 4 + region * axisCount * 6;
+
+        let scalar = 1;
+        for (let i = 0; i < axisCount; i++) {
+            const axis = regionOffset + i * 6;
+            const start = this.view.getInt16(axis) / 0x4000;
+            const peak = this.view.getInt16(axis + 2) / 0x4000;
+            const end = this.view.getInt16(axis + 4) / 0x4000;
+            const coord = coords[i] ?? 0;
+
+            if (peak === 0 || start > peak || peak > end || (start < 0 && end > 0)) continue;
+            if (coord === peak) continue;
+            if (coord <= start || coord >= end) return 0;
+
+            scalar *= coord < peak
+                ? (coord - start) / (peak - start)
+                : (end - coord) / (end - peak);
+        }
+        return scalar;
+    }
+
+    private tag(offset: number): string {
+        return String.fromCharCode(
+            this.view.getUint8(offset),
+            this.view.getUint8(offset + 1),
+            this.view.getUint8(offset + 2),
+            this.view.getUint8(offset + 3)
+        );
+    }
+}
+
+// Font-unit metrics → pixels (scale = size / unitsPerEm)
+export function scaleFontMetrics(metrics: FontMetrics, scale: number): FontMetrics {
+    return {
+        unitsPerEm: metrics.unitsPerEm,
+        ascender: metrics.ascender * scale,
+        descender: metrics.descender * scale,
+        lineGap: metrics.lineGap * scale,
+        lineHeight: metrics.lineHeight * scale,
+        capHeight: metrics.capHeight * scale,
+        xHeight: metrics.xHeight * scale,
+        underlinePosition: metrics.underlinePosition * scale,
+        underlineThickness: metrics.underlineThickness * scale,
+    };
+}
+
+// Bytes in a ValueRecord - one int16 per set format bit
+function valueRecordSize(valueFormat: number): number {
+    let size = 0;
+    for (let bits = valueFormat & 0xFF; bits; bits >>= 1) {
+        if (bits & 1) size += 2;
+    }
+    return size;
+}
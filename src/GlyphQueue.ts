@@ -0,0 +1,125 @@
+/**
+ * GlyphQueue - Keyed max-priority queue for pending glyph generation
+ *
+ * Binary heap ordered by priority (highest first), then insertion order, so equal
+ * priorities stay FIFO. Each key is queued at most once - pushing it again only
+ * raises its priority.
+ */
+
+interface QueueEntry<T> {
+    key: string;
+    item: T;
+    priority: number;
+    order: number;   // insertion sequence, breaks priority ties
+    index: number;   // position in the heap array
+}
+
+export class GlyphQueue<T> {
+
+    private heap: QueueEntry<T>[] = [];
+    private entries: Map<string, QueueEntry<T>> = new Map();
+    private sequence: number = 0;
+
+    get size(): number {
+        return this.heap.length;
+    }
+
+    has(key: string): boolean {
+        return this.entries.has(key);
+    }
+
+    // Queue an item, or raise the priority of the already queued one
+    push(key: string, item: T, priority: number): void {
+        const existing = this.entries.get(key);
+        if (existing) {
+            if (priority > existing.priority) {
+                existing.priority = priority;
+                this.siftUp(existing.index);
+            }
+            return;
+        }
+
+        const entry: QueueEntry<T> = { key, item, priority, order: this.sequence++, index: this.heap.length };
+        this.heap.push(entry);
+        this.entries.set(key, entry);
+        this.siftUp(entry.index);
+    }
+
+    // Remove and return the highest priority item
+    pop(): T | undefined {
+        const top = this.heap[0];
+        if (!top) return undefined;
+        this.removeAt(0);
+        return top.item;
+    }
+
+    delete(key: string): boolean {
+        const entry = this.entries.get(key);
+        if (!entry) return false;
+        this.removeAt(entry.index);
+        return true;
+    }
+
+    // Drop every item the predicate rejects
+    filter(keep: (item: T) => boolean): void {
+        for (const entry of [...this.heap]) {
+            if (!keep(entry.item)) {
+                this.removeAt(entry.index);
+            }
+        }
+    }
+
+    clear(): void {
+        this.heap = [];
+        this.entries.clear();
+    }
+
+    private removeAt(index: number): void {
+        const entry = this.heap[index];
+        const last = this.heap.pop()!;
+        this.entries.delete(entry.key);
+
+        if (last !== entry) {
+            this.heap[index] = last;
+            last.index = index;
+            this.siftDown(index);
+            this.siftUp(last.index);
+        }
+    }
+
+    // Does a come out before b?
+    private before(a: QueueEntry<T>, b: QueueEntry<T>): boolean {
+        return a.priority > b.priority || (a.priority === b.priority && a.order < b.order);
+    }
+
+    private siftUp(index: number): void {
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (!this.before(this.heap[index], this.heap[parent])) break;
+            this.swap(index, parent);
+            index = parent;
+        }
+    }
+
+    private siftDown(index: number): void {
+        for (;;) {
+            const left = index * 2 + 1;
+            const right = left + 1;
+            let best = index;
+            if (left < this.heap.length && this.before(this.heap[left], this.heap[best])) best = left;
+            if (right < this.heap.length && this.before(this.heap[right], this.heap[best])) best = right;
+            if (best === index) break;
+            this.swap(index, best);
+            index = best;
+        }
+    }
+
+    private swap(i: number, j: number): void {
+        const a = this.heap[i];
+        const b = this.heap[j];
+        this.heap[i] = b;
+        this.heap[j] = a;
+        a.index = j;
+        b.index = i;
+    }
+}
@@ -1,78 +1,215 @@
-import type { TextureFactory } from './types.js';
+import type { TextureFactory, PackingStrategy, DirtyRect, PackerState, PageFormat, FieldType } from './types.js';
+import type { Packer } from './packing/Packer.js';
+import { createPacker } from './packing/Packer.js';
+import type { TextureArray } from './TextureArray.js';
+
+// Above this many separate rects a flush uploads their union instead
+const MAX_DIRTY_RECTS = 8;
 
 export class Page<T> {
 
-    readonly width: number;
-    readonly height: number;
+    width: number;
+    height: number;
+    readonly maxSize: number;  // growable pages double up to this, fixed pages start at it
+    readonly layer: number;   // layer in the texture array, 0 for standalone pages
+    readonly format: PageFormat;
+    readonly channels: number;   // bytes per pixel - 4 for 'rgba8', 1 for 'r8'
 
     buffer: Uint8Array;
-    texture: T;
-    cursorX: number = 0;
-    cursorY: number = 0;
-    rowHeight: number = 0;
     dirty: boolean = false;
     lastAccessed: number = Date.now();
+    usedArea: number = 0;    // glyph pixels placed (excluding padding)
 
     private textureFactory: TextureFactory<T>;
+    private packer: Packer;
     private padding: number = 1;
+    private ownTexture: T | null = null;
+    private array: TextureArray<T> | null;
+    private dirtyRects: DirtyRect[] = [];
 
-    constructor(width: number, height: number, textureFactory: TextureFactory<T>) {
+    constructor(
+        width: number,
+        height: number,
+        textureFactory: TextureFactory<T>,
+        packing: PackingStrategy = 'shelf',
+        array: TextureArray<T> | null = null,
+        maxSize: number = Math.max(width, height),
+        pixels?: Uint8Array,  // initial contents, e.g. from a snapshot
+        format: PageFormat = 'rgba8'
+    ) {
         this.width = width;
         this.height = height;
+        this.maxSize = array ? Math.max(width, height) : maxSize;  // array layers have a fixed size
+        this.format = format;
+        this.channels = pageChannels(format);
         this.textureFactory = textureFactory;
-        this.buffer = new Uint8Array(width * height * 4);
-        this.texture = textureFactory.create(width, height, this.buffer);
+        this.packer = createPacker(packing, width, height);
+        this.buffer = pixels ? new Uint8Array(pixels) : new Uint8Array(width * height * this.channels);
+        this.array = array;
+
+        if (array) {
+            this.layer = array.allocateLayer(this.buffer);
+            // Layer may still hold pixels of a released page - clear it on first flush
+            this.markDirty({ x: 0, y: 0, width, height });
+        } else {
+            this.layer = 0;
+            this.ownTexture = textureFactory.create(width, height, this.buffer, format);
+        }
+    }
+
+    // Page texture, or the shared array texture for layered pages (changes when the array grows)
+    get texture(): T {
+        return this.array ? this.array.texture : this.ownTexture!;
+    }
+
+    // Would a w x h glyph fit? Does not reserve space
+    canFit(w: number, h: number): boolean {
+        return this.packer.canFit(w + this.padding, h + this.padding);
     }
 
     // Try to add glyph pixels to this page
     // Returns position if successful, null if no space
     tryAdd(pixels: Uint8Array, w: number, h: number): { x: number; y: number } | null {
-        const paddedW = w + this.padding;
-        const paddedH = h + this.padding;
-
-        // Check if fits in current row
-        if (this.cursorX + paddedW > this.width) {
-            // Move to next row
-            this.cursorY += this.rowHeight + this.padding;
-            this.cursorX = 0;
-            this.rowHeight = 0;
-        }
-
-        // Check if fits vertically
-        if (this.cursorY + paddedH > this.height) {
+        const pos = this.packer.pack(w + this.padding, h + this.padding);
+        if (!pos) {
             return null;
         }
 
-        const x = this.cursorX;
-        const y = this.cursorY;
+        const { x, y } = pos;
 
-        // Copy pixels to buffer (RGBA) - flip Y to match atlas coordinate system
+        // Copy pixels to buffer (page format) - flip Y to match atlas coordinate system
+        const channels = this.channels;
         for (let row = 0; row < h; row++) {
-            const srcOffset = row * w * 4;
+            const srcOffset = row * w * channels;
             const dstRow = h - 1 - row;  // Flip Y
-            const dstOffset = ((y + dstRow) * this.width + x) * 4;
-            for (let col = 0; col < w * 4; col++) {
+            const dstOffset = ((y + dstRow) * this.width + x) * channels;
+            for (let col = 0; col < w * channels; col++) {
                 this.buffer[dstOffset + col] = pixels[srcOffset + col];
             }
         }
 
-        this.cursorX += paddedW;
-        this.rowHeight = Math.max(this.rowHeight, paddedH);
-        this.dirty = true;
+        this.usedArea += w * h;
+        this.markDirty({ x, y, width: w, height: h });
         this.lastAccessed = Date.now();
 
         return { x, y };
     }
 
-    // Update texture if buffer has changed
-    flush(): void {
-        if (this.dirty) {
+    // Packer bookkeeping, so a restored page keeps filling where it left off
+    savePacker(): PackerState {
+        return this.packer.save();
+    }
+
+    loadPacker(state: PackerState): void {
+        this.packer.load(state);
+    }
+
+    canGrow(): boolean {
+        return this.width < this.maxSize || this.height < this.maxSize;
+    }
+
+    // Double the page (up to maxSize), keeping existing pixels at the same position.
+    // Recreates the texture - returns the old one so callers can report the swap.
+    grow(): T {
+        const width = Math.min(this.width * 2, this.maxSize);
+        const height = Math.min(this.height * 2, this.maxSize);
+        const oldTexture = this.texture;
+
+        const buffer = new Uint8Array(width * height * this.channels);
+        const rowBytes = this.width * this.channels;
+        for (let row = 0; row < this.height; row++) {
+            buffer.set(this.buffer.subarray(row * rowBytes, (row + 1) * rowBytes), row * width * this.channels);
+        }
+
+        this.buffer = buffer;
+        this.width = width;
+        this.height = height;
+        this.packer.grow(width, height);
+
+        // New texture is created with all pixels, nothing left to flush
+        this.ownTexture = this.textureFactory.create(width, height, buffer, this.format);
+        this.textureFactory.destroy(oldTexture);
+        this.dirtyRects = [];
+        this.dirty = false;
+
+        return oldTexture;
+    }
+
+    getMemoryBytes(): number {
+        return this.width * this.height * this.channels;
+    }
+
+    // Fraction of the page covered by glyph pixels (0-1)
+    getFillRatio(): number {
+        return this.usedArea / (this.width * this.height);
+    }
+
+    // Update texture if buffer has changed - returns false if there was nothing to upload
+    // Uploads only the dirty regions when the factory supports updateRegion()
+    flush(): boolean {
+        if (!this.dirty) return false;
+
+        if (this.array) {
+            for (const rect of this.dirtyRects) {
+                this.array.updateLayer(this.layer, this.buffer, rect);
+            }
+        } else if (this.textureFactory.updateRegion) {
+            for (const rect of this.dirtyRects) {
+                this.textureFactory.updateRegion(this.texture, this.buffer, rect.x, rect.y, rect.width, rect.height);
+            }
+        } else {
             this.textureFactory.update(this.texture, this.buffer);
-            this.dirty = false;
         }
+
+        this.dirtyRects = [];
+        this.dirty = false;
+        return true;
+    }
+
+    private markDirty(rect: DirtyRect): void {
+        this.dirty = true;
+        this.dirtyRects.push(rect);
+
+        if (this.dirtyRects.length > MAX_DIRTY_RECTS) {
+            this.dirtyRects = [unionRect(this.dirtyRects)];
+        }
+    }
+
+    // Clear pixels and packing state so the page (and its texture) can be reused
+    reset(): void {
+        this.buffer.fill(0);
+        this.packer.reset();
+        this.usedArea = 0;
+        this.dirtyRects = [];
+        this.markDirty({ x: 0, y: 0, width: this.width, height: this.height });
+        this.lastAccessed = Date.now();
     }
 
     destroy(): void {
-        this.textureFactory.destroy(this.texture);
+        if (this.array) {
+            this.array.releaseLayer(this.layer);
+        } else {
+            this.textureFactory.destroy(this.ownTexture!);
+        }
+    }
+}
+
+export function pageChannels(format: PageFormat): number {
+    return format === 'r8' ? 1 : 4;
+}
+
+// Single-channel fields are stored as R8, the multi-channel ones as RGBA
+export function fieldTypeFormat(fieldType: FieldType): PageFormat {
+    return fieldType === 'sdf' || fieldType === 'psdf' ? 'r8' : 'rgba8';
+}
+
+function unionRect(rects: DirtyRect[]): DirtyRect {
+    let x0 = Infinity, y0 = Infinity, x1 = 0, y1 = 0;
+    for (const r of rects) {
+        x0 = Math.min(x0, r.x);
+        y0 = Math.min(y0, r.y);
+        x1 = Math.max(x1, r.x + r.width);
+        y1 = Math.max(y1, r.y + r.height);
     }
+    return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
 }
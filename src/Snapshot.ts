@@ -0,0 +1,78 @@
+/**
+ * Snapshot encoding - AtlasSnapshot <-> bytes for AtlasStorage
+ *
+ * Layout (little endian):
+ *   'KATL' | u32 version | u32 JSON byte length | JSON | page pixels
+ *
+ * The JSON is the snapshot with every page's pixels replaced by their byte length;
+ * the pixel blobs follow in variant / page order.
+ */
+
+import type { AtlasSnapshot, PageSnapshot } from './types.js';
+
+export const SNAPSHOT_VERSION = 2;
+
+const MAGIC = [0x4B, 0x41, 0x54, 0x4C];  // 'KATL'
+const HEADER_BYTES = 12;
+
+export function encodeSnapshot(snapshot: AtlasSnapshot): Uint8Array {
+    const blobs: Uint8Array[] = [];
+    const json = JSON.stringify({
+        ...snapshot,
+        variants: snapshot.variants.map(variant => ({
+            ...variant,
+            pages: variant.pages.map(page => {
+                blobs.push(page.pixels);
+                return { ...page, pixels: page.pixels.length };
+            }),
+        })),
+    });
+    const jsonBytes = new TextEncoder().encode(json);
+
+    let total = HEADER_BYTES + jsonBytes.length;
+    for (const blob of blobs) {
+        total += blob.length;
+    }
+
+    const bytes = new Uint8Array(total);
+    const view = new DataView(bytes.buffer);
+    bytes.set(MAGIC, 0);
+    view.setUint32(4, snapshot.version, true);
+    view.setUint32(8, jsonBytes.length, true);
+    bytes.set(jsonBytes, HEADER_BYTES);
+
+    let offset = HEADER_BYTES + jsonBytes.length;
+    for (const blob of blobs) {
+        bytes.set(blob, offset);
+        offset += blob.length;
+    }
+    return bytes;
+}
+
+export function decodeSnapshot(bytes: Uint8Array): AtlasSnapshot {
+    if (bytes.length < HEADER_BYTES || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+        throw new Error('Not a FontAtlas snapshot');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const version = view.getUint32(4, true);
+    if (version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${version}, expected ${SNAPSHOT_VERSION}`);
+    }
+
+    const jsonLength = view.getUint32(8, true);
+    const snapshot = JSON.parse(new TextDecoder().decode(bytes.subarray(HEADER_BYTES, HEADER_BYTES + jsonLength)));
+
+    let offset = HEADER_BYTES + jsonLength;
+    for (const variant of snapshot.variants) {
+        variant.pages = variant.pages.map((page: Omit<PageSnapshot, 'pixels'> & { pixels: number }): PageSnapshot => {
+            if (offset + page.pixels > bytes.length) {
+                throw new Error('Snapshot is truncated');
+            }
+            const pixels = bytes.slice(offset, offset + page.pixels);
+            offset += page.pixels;
+            return { ...page, pixels };
+        });
+    }
+    return snapshot;
+}
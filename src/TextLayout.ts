@@ -0,0 +1,205 @@
+/**
+ * TextLayout - Turns strings into positioned glyph quads using a FontAtlas
+ *
+ * Steps:
+ * 1. Split into paragraphs on \n (\r\n counts as one newline)
+ * 2. Look up each code point (surrogate pairs included) - queues generation for new glyphs
+ * 3. Greedy word wrap to maxWidth, breaking mid-word only when a word doesn't fit a line
+ * 4. Align each line and emit quads for glyphs that have pixels
+ *
+ * Glyphs still pending have no advance yet, so the result is marked incomplete and
+ * should be laid out again once onGlyphsReady fires.
+ */
+
+import type { FontAtlas } from './FontAtlas.js';
+import type { GlyphInfo, TextStyle, TextLayout, TextLine, GlyphQuad } from './types.js';
+
+interface LayoutItem<T> {
+    codePoint: number;
+    cluster: number;
+    info: GlyphInfo<T>;
+    advance: number;   // scaled to fontSize
+    kern: number;      // adjustment towards the next item, applied only on the same line
+}
+
+interface LineRange {
+    start: number;     // item indices, end exclusive
+    end: number;
+    last: boolean;     // last line of its paragraph
+}
+
+const NEWLINE = 0x0A;
+const CARRIAGE_RETURN = 0x0D;
+
+export function layoutText<T>(atlas: FontAtlas<T>, text: string, style: TextStyle): TextLayout<T> {
+    const { fontSize, maxWidth, align = 'left', letterSpacing = 0, lineSpacing = 0 } = style;
+    const fontMetrics = atlas.getFontMetrics(style.fontId, fontSize, style.variationAxes);
+    const lineAdvance = fontMetrics.lineHeight + lineSpacing;
+    const variantId = style.variantId ?? atlas.getVariantId(style.fontId, style.variationAxes);
+
+    let complete = true;
+    const lines: TextLine[] = [];
+    const quads: GlyphQuad<T>[] = [];
+    const placed: { items: LayoutItem<T>[]; range: LineRange; clusterEnd: number }[] = [];
+
+    for (const paragraph of splitParagraphs(text)) {
+        const items: LayoutItem<T>[] = [];
+        for (let i = paragraph.start; i < paragraph.end;) {
+            const codePoint = text.codePointAt(i)!;
+            const info = atlas.getGlyph({
+                codePoint,
+                variantId,
+                fontId: style.fontId,
+                variationAxes: style.variationAxes,
+                renderSize: fontSize,
+                sizeKey: style.sizeKey,
+            });
+            if (!info.cached) complete = false;
+
+            items.push({ codePoint, cluster: i, info, advance: info.scaled.advance, kern: 0 });
+            i += codePoint > 0xFFFF ? 2 : 1;
+        }
+
+        // Kerning only applies between glyphs of the style's font, not fallbacks
+        if (style.kerning !== false) {
+            for (let i = 0; i + 1 < items.length; i++) {
+                const left = items[i], right = items[i + 1];
+                if (left.info.fontId === style.fontId && right.info.fontId === style.fontId) {
+                    left.kern = atlas.getKerning(variantId, left.codePoint, right.codePoint, fontSize);
+                }
+            }
+        }
+
+        for (const range of wrapLines(items, maxWidth, letterSpacing)) {
+            const clusterEnd = range.end < items.length ? items[range.end].cluster : paragraph.end;
+            placed.push({ items, range, clusterEnd });
+        }
+    }
+
+    const lineWidths = placed.map(({ items, range }) => measureLine(items, range.start, range.end, letterSpacing));
+    const width = Math.max(0, ...lineWidths);
+    const alignWidth = maxWidth ?? width;
+
+    placed.forEach(({ items, range, clusterEnd }, index) => {
+        const lineWidth = lineWidths[index];
+        const baseline = fontMetrics.ascender + index * lineAdvance;
+        const end = trimTrailingSpaces(items, range.start, range.end);
+
+        let x = 0;
+        let spaceExtra = 0;
+        if (align === 'center') {
+            x = (alignWidth - lineWidth) / 2;
+        } else if (align === 'right') {
+            x = alignWidth - lineWidth;
+        } else if (align === 'justify' && !range.last) {
+            let spaces = 0;
+            for (let i = range.start; i < end; i++) {
+                if (isSpace(items[i].codePoint)) spaces++;
+            }
+            if (spaces > 0) spaceExtra = (alignWidth - lineWidth) / spaces;
+        }
+
+        lines.push({
+            start: range.start < items.length ? items[range.start].cluster : clusterEnd,
+            end: clusterEnd,
+            x,
+            baseline,
+            width: spaceExtra > 0 ? alignWidth : lineWidth,
+        });
+
+        let pen = x;
+        for (let i = range.start; i < end; i++) {
+            const { codePoint, cluster, info, advance, kern } = items[i];
+
+            if ((info.cached || info.provisional) && !info.empty) {
+                const { scaled } = info;
+                quads.push({
+                    codePoint,
+                    cluster,
+                    line: index,
+                    x: pen + scaled.x,
+                    y: baseline + scaled.y,
+                    width: scaled.width,
+                    height: scaled.height,
+                    texture: info.texture,
+                    uvs: info.uvs,
+                    layer: info.layer,
+                });
+            }
+
+            pen += advance;
+            if (i + 1 < end) pen += kern + letterSpacing;
+            if (isSpace(codePoint)) pen += spaceExtra;
+        }
+    });
+
+    return {
+        quads,
+        lines,
+        width,
+        height: placed.length > 0 ? fontMetrics.lineHeight + (placed.length - 1) * lineAdvance : 0,
+        complete,
+    };
+}
+
+// UTF-16 ranges between newlines, newline characters excluded
+function splitParagraphs(text: string): { start: number; end: number }[] {
+    const paragraphs: { start: number; end: number }[] = [];
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) !== NEWLINE) continue;
+        const end = i > start && text.charCodeAt(i - 1) === CARRIAGE_RETURN ? i - 1 : i;
+        paragraphs.push({ start, end });
+        start = i + 1;
+    }
+    paragraphs.push({ start, end: text.length });
+    return paragraphs;
+}
+
+// Greedy line breaking - break after the last space that fits, or before the glyph that
+// overflows when the line has no space. Always at least one line, even for an empty paragraph.
+function wrapLines<T>(items: LayoutItem<T>[], maxWidth: number | undefined, letterSpacing: number): LineRange[] {
+    if (maxWidth === undefined) {
+        return [{ start: 0, end: items.length, last: true }];
+    }
+
+    const lines: LineRange[] = [];
+    let lineStart = 0;
+    let breakAt = -1;
+
+    for (let i = 0; i < items.length; i++) {
+        if (isSpace(items[i].codePoint)) {
+            breakAt = i + 1;
+            continue;
+        }
+        if (i === lineStart || measureLine(items, lineStart, i + 1, letterSpacing) <= maxWidth) continue;
+
+        const end = breakAt > lineStart ? breakAt : i;
+        lines.push({ start: lineStart, end, last: false });
+        lineStart = end;
+        breakAt = -1;
+    }
+
+    lines.push({ start: lineStart, end: items.length, last: true });
+    return lines;
+}
+
+// Width of items [start, end) without trailing spaces
+function measureLine<T>(items: LayoutItem<T>[], start: number, end: number, letterSpacing: number): number {
+    end = trimTrailingSpaces(items, start, end);
+    let width = 0;
+    for (let i = start; i < end; i++) {
+        width += items[i].advance;
+        if (i + 1 < end) width += items[i].kern + letterSpacing;
+    }
+    return width;
+}
+
+function trimTrailingSpaces<T>(items: LayoutItem<T>[], start: number, end: number): number {
+    while (end > start && isSpace(items[end - 1].codePoint)) end--;
+    return end;
+}
+
+function isSpace(codePoint: number): boolean {
+    return codePoint === 0x20 || codePoint === 0x09 || codePoint === 0x3000;
+}
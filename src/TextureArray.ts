@@ -0,0 +1,100 @@
+import type { TextureFactory, DirtyRect, PageFormat } from './types.js';
+import { pageChannels } from './Page.js';
+
+// Layers allocated when an array is first created
+const INITIAL_LAYERS = 4;
+
+// One 2D array texture shared by several pages (one page per layer)
+// Layers are handed out on demand; the array doubles its capacity when full
+export class TextureArray<T> {
+
+    readonly width: number;
+    readonly height: number;
+    readonly format: PageFormat;
+
+    texture: T;
+    capacity: number;
+
+    private textureFactory: TextureFactory<T>;
+    private layerBuffers: (Uint8Array | null)[] = [];
+    private freeLayers: number[] = [];
+
+    // Called when growing replaced the texture - anything holding the old one must rebind
+    onReplaced: ((oldTexture: T, texture: T) => void) | null = null;
+
+    constructor(width: number, height: number, textureFactory: TextureFactory<T>, format: PageFormat = 'rgba8') {
+        if (!textureFactory.createLayered || !textureFactory.updateLayer) {
+            throw new Error('TextureArray requires TextureFactory.createLayered and updateLayer');
+        }
+        this.width = width;
+        this.height = height;
+        this.format = format;
+        this.textureFactory = textureFactory;
+        this.capacity = INITIAL_LAYERS;
+        this.texture = textureFactory.createLayered(width, height, this.capacity, format);
+    }
+
+    // Claim a layer for a page buffer, growing the array if needed
+    allocateLayer(buffer: Uint8Array): number {
+        const free = this.freeLayers.pop();
+        if (free !== undefined) {
+            this.layerBuffers[free] = buffer;
+            return free;
+        }
+
+        if (this.layerBuffers.length >= this.capacity) {
+            this.grow(this.capacity * 2);
+        }
+
+        this.layerBuffers.push(buffer);
+        return this.layerBuffers.length - 1;
+    }
+
+    releaseLayer(layer: number): void {
+        this.layerBuffers[layer] = null;
+        this.freeLayers.push(layer);
+    }
+
+    updateLayer(layer: number, buffer: Uint8Array, rect: DirtyRect): void {
+        this.textureFactory.updateLayer!(this.texture, layer, buffer, rect.x, rect.y, rect.width, rect.height);
+    }
+
+    getLayerCount(): number {
+        return this.layerBuffers.length - this.freeLayers.length;
+    }
+
+    getMemoryBytes(): number {
+        return this.capacity * this.width * this.height * pageChannels(this.format);
+    }
+
+    private grow(capacity: number): void {
+        const factory = this.textureFactory;
+        const oldTexture = this.texture;
+
+        if (factory.resizeLayered) {
+            // Factory copies existing layers (e.g. copyTextureToTexture)
+            this.texture = factory.resizeLayered(oldTexture, this.width, this.height, capacity);
+        } else {
+            // Re-upload every layer from its CPU-side buffer
+            this.texture = factory.createLayered!(this.width, this.height, capacity, this.format);
+            this.layerBuffers.forEach((buffer, layer) => {
+                if (buffer) {
+                    factory.updateLayer!(this.texture, layer, buffer, 0, 0, this.width, this.height);
+                }
+            });
+        }
+
+        this.capacity = capacity;
+
+        if (this.texture !== oldTexture) {
+            factory.destroy(oldTexture);
+            this.onReplaced?.(oldTexture, this.texture);
+        }
+    }
+
+    destroy(): void {
+        this.textureFactory.destroy(this.texture);
+        this.layerBuffers = [];
+        this.freeLayers = [];
+    }
+}
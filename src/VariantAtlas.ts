@@ -1,6 +1,7 @@
-import type { TextureFactory, GlyphMetrics, GlyphLocation } from './types.js';
-import { isLatinChar } from './types.js';
-import { Page } from './Page.js';
+import type { TextureFactory, GlyphMetrics, GlyphLocation, AtlasConfig, TextureReplacedEvent, VariantSnapshot, PageSnapshot, PageFormat } from './types.js';
+import { Page, fieldTypeFormat, pageChannels } from './Page.js';
+import { TextureArray } from './TextureArray.js';
+import { Charset } from './Charsets.js';
 
 // Placeholder metrics for reserved but not-yet-generated glyphs
 const PLACEHOLDER_METRICS: GlyphMetrics = {
@@ -12,58 +13,118 @@ const PLACEHOLDER_METRICS: GlyphMetrics = {
     planeBounds: { l: 0, b: 0, r: 0, t: 0 },
 };
 
+// Shared by all variant atlases so their use can be ordered, even within one millisecond
+let accessCounter = 0;
+
 export class VariantAtlas<T> {
 
     readonly variantId: string;
     readonly genSize: number;
+    readonly format: PageFormat;   // from config.fieldType - the variant's own, see FontAtlas.setVariantOptions()
 
-    private latinPage: Page<T> | null = null;
+    private primaryPage: Page<T> | null = null;
     private mixedPages: Page<T>[] = [];
+    private largePages: Page<T>[] = [];   // one per glyph too big for a regular page
     private glyphIndex: Map<number, GlyphLocation<T>> = new Map();
+    private glyphPages: Map<number, Page<T>> = new Map();
     private pendingGlyphs: Set<number> = new Set();
-    private lastAccessed: number = Date.now();
+    private filledPages: Set<Page<T>> = new Set();   // mixed pages given glyphs since the last flush
+    private lastAccessed: number = Date.now();      // wall clock, for idleTimeoutMs
+    private accessOrder: number = ++accessCounter;  // LRU order across atlases
 
-    private pageSize: number;
-    private maxMixedPages: number;
+    private config: AtlasConfig;
     private textureFactory: TextureFactory<T>;
+    private textureArray: TextureArray<T> | null;
+    private ownsTextureArray: boolean;
+    private primaryCharset: Charset;
+
+    // Called when a mixed page is reclaimed - its glyphs are gone from the index
+    onPageEvicted: ((texture: T, layer: number, codePoints: number[]) => void) | null = null;
+
+    // Glyphs a whenReady() caller waits on - pages holding them are reclaimed last
+    getAwaitedGlyphs: (() => Set<number>) | null = null;
+
+    // Called when a page grew or this variant's own array texture grew
+    onTextureReplaced: ((event: TextureReplacedEvent<T>) => void) | null = null;
 
     constructor(
         variantId: string,
         genSize: number,
-        pageSize: number,
-        maxMixedPages: number,
-        textureFactory: TextureFactory<T>
+        config: AtlasConfig,
+        textureFactory: TextureFactory<T>,
+        sharedTextureArray: TextureArray<T> | null = null,
+        primaryCharset: Charset = new Charset(config.primaryCharsets)
     ) {
         this.variantId = variantId;
         this.genSize = genSize;
-        this.pageSize = pageSize;
-        this.maxMixedPages = maxMixedPages;
+        this.format = fieldTypeFormat(config.fieldType);
+        this.config = config;
         this.textureFactory = textureFactory;
+        this.primaryCharset = primaryCharset;
+        this.textureArray = sharedTextureArray;
+        this.ownsTextureArray = false;
+
+        if (!sharedTextureArray && config.pageMode === 'variant-array') {
+            this.textureArray = new TextureArray<T>(config.pageSize, config.pageSize, textureFactory, this.format);
+            const array = this.textureArray;
+            array.onReplaced = (oldTexture, texture) => {
+                this.onTextureReplaced?.({
+                    oldTexture,
+                    texture,
+                    width: array.width,
+                    height: array.height,
+                    reason: 'array-grow',
+                });
+            };
+            this.ownsTextureArray = true;
+        }
     }
 
     // Get cached glyph if exists and is ready (not pending)
     getGlyph(codePoint: number): GlyphLocation<T> | null {
-        this.lastAccessed = Date.now();
+        this.touch();
         if (this.pendingGlyphs.has(codePoint)) {
             return null; // Still pending generation
         }
+        const page = this.glyphPages.get(codePoint);
+        if (page) {
+            page.lastAccessed = this.lastAccessed;
+        }
         return this.glyphIndex.get(codePoint) || null;
     }
 
+    // Generated and ready - unlike getGlyph() doesn't count as a use
+    hasGlyph(codePoint: number): boolean {
+        return this.glyphIndex.has(codePoint) && !this.pendingGlyphs.has(codePoint);
+    }
+
+    // Reserved but not yet filled or marked empty
+    isPending(codePoint: number): boolean {
+        return this.pendingGlyphs.has(codePoint);
+    }
+
     // Reserve a slot for a glyph that will be generated later
     // Returns location with page reference but placeholder metrics
     reserveGlyph(codePoint: number): GlyphLocation<T> {
-        this.lastAccessed = Date.now();
+        this.touch();
+
+        // Already waiting for generation - keep the existing placeholder
+        const reserved = this.pendingGlyphs.has(codePoint) && this.glyphIndex.get(codePoint);
+        if (reserved) {
+            return reserved;
+        }
 
-        const isLatin = isLatinChar(codePoint);
-        const page = this.getOrCreatePage(isLatin, this.genSize); // Use genSize as estimate
+        // Placeholder only needs a texture - never evict a page just to reserve
+        const page = this.primaryCharset.has(codePoint)
+            ? this.getPrimaryPage()
+            : this.mixedPages[this.mixedPages.length - 1] ?? this.createMixedPage();
 
         // Mark as pending
         this.pendingGlyphs.add(codePoint);
 
         // Return placeholder location - will be updated by fillGlyph()
         const location: GlyphLocation<T> = {
-            page: { texture: page.texture, width: page.width, height: page.height },
+            page,
             x: 0,
             y: 0,
             width: 0,
@@ -71,6 +132,8 @@ export class VariantAtlas<T> {
             metrics: PLACEHOLDER_METRICS,
             empty: false,
             missing: false,
+            failed: false,
+            evicted: false,
         };
 
         this.glyphIndex.set(codePoint, location);
@@ -78,73 +141,120 @@ export class VariantAtlas<T> {
     }
 
     // Fill in a previously reserved glyph with actual pixel data
-    fillGlyph(codePoint: number, pixels: Uint8Array, metrics: GlyphMetrics): void {
-        this.lastAccessed = Date.now();
+    // fontId records which font of a fallback chain supplied the glyph
+    fillGlyph(codePoint: number, pixels: Uint8Array, metrics: GlyphMetrics, fontId?: string): void {
+        this.touch();
 
-        const isLatin = isLatinChar(codePoint);
-        const page = this.getOrCreatePage(isLatin, metrics.height);
+        const { page, pos } = this.placeGlyph(codePoint, pixels, metrics);
+        this.updateGlyphLocation(codePoint, page, pos, metrics, fontId);
+    }
 
-        const pos = page.tryAdd(pixels, metrics.width, metrics.height);
-        if (!pos) {
-            if (isLatin) {
-                throw new Error(`Latin page full - this shouldn't happen`);
+    // Add a glyph immediately (for sync prefab)
+    addGlyph(codePoint: number, pixels: Uint8Array, metrics: GlyphMetrics, fontId?: string): GlyphLocation<T> {
+        this.touch();
+
+        const { page, pos } = this.placeGlyph(codePoint, pixels, metrics);
+        return this.storeGlyph(codePoint, page, pos, metrics, fontId);
+    }
+
+    // Copy glyph pixels into a page: primary charset goes to the primary page,
+    // everything else (and primary overflow if the size estimate was off) to mixed pages.
+    // Glyphs bigger than a page get a page of their own.
+    private placeGlyph(
+        codePoint: number,
+        pixels: Uint8Array,
+        metrics: GlyphMetrics
+    ): { page: Page<T>; pos: { x: number; y: number } } {
+        const { width, height } = metrics;
+
+        if (this.primaryCharset.has(codePoint)) {
+            const primary = this.getPrimaryPage();
+            this.makeRoom(primary, width, height);
+            const pos = primary.tryAdd(pixels, width, height);
+            if (pos) {
+                return { page: primary, pos };
             }
-            const newPage = this.createMixedPage();
-            const newPos = newPage.tryAdd(pixels, metrics.width, metrics.height);
-            if (!newPos) {
-                throw new Error(`Fresh page can't fit glyph ${metrics.width}x${metrics.height}`);
+        }
+
+        // Don't evict a mixed page for a glyph that can't fit one anyway
+        if (width < this.config.pageSize && height < this.config.pageSize) {
+            const page = this.getMixedPage(width, height);
+            const pos = page.tryAdd(pixels, width, height);
+            if (pos) {
+                this.filledPages.add(page);
+                return { page, pos };
             }
-            this.updateGlyphLocation(codePoint, newPage, newPos, metrics);
-            return;
         }
 
-        this.updateGlyphLocation(codePoint, page, pos, metrics);
+        return this.addLargeGlyph(pixels, width, height);
     }
 
-    // Add a glyph immediately (for sync prefab)
-    addGlyph(codePoint: number, pixels: Uint8Array, metrics: GlyphMetrics): GlyphLocation<T> {
-        this.lastAccessed = Date.now();
-
-        const isLatin = isLatinChar(codePoint);
-        const page = this.getOrCreatePage(isLatin, metrics.height);
+    // Standalone texture sized to the glyph - outside any texture array, never evicted
+    private addLargeGlyph(
+        pixels: Uint8Array,
+        width: number,
+        height: number
+    ): { page: Page<T>; pos: { x: number; y: number } } {
+        let size = 1;
+        while (size <= Math.max(width, height)) {
+            size *= 2;
+        }
 
-        const pos = page.tryAdd(pixels, metrics.width, metrics.height);
+        const page = new Page<T>(size, size, this.textureFactory, this.config.packing, null, size, undefined, this.format);
+        const pos = page.tryAdd(pixels, width, height);
         if (!pos) {
-            if (isLatin) {
-                throw new Error(`Latin page full - this shouldn't happen`);
-            }
-            const newPage = this.createMixedPage();
-            const newPos = newPage.tryAdd(pixels, metrics.width, metrics.height);
-            if (!newPos) {
-                throw new Error(`Fresh page can't fit glyph ${metrics.width}x${metrics.height}`);
-            }
-            return this.storeGlyph(codePoint, newPage, newPos, metrics);
+            page.destroy();
+            throw new Error(`Large glyph page can't fit glyph ${width}x${height}`);
         }
-
-        return this.storeGlyph(codePoint, page, pos, metrics);
+        this.largePages.push(page);
+        return { page, pos };
     }
 
     // Mark a reserved glyph as empty/missing (no texture data)
-    markEmpty(codePoint: number, missing: boolean): void {
+    // Empty glyphs like space pass metrics so they still advance the pen
+    markEmpty(codePoint: number, missing: boolean, fontId?: string, metrics?: GlyphMetrics): void {
         const location = this.glyphIndex.get(codePoint);
         if (location) {
             location.empty = true;
             location.missing = missing;
             location.width = 0;
             location.height = 0;
+            location.fontId = fontId;
+            if (metrics) {
+                location.metrics = metrics;
+            }
         }
         this.pendingGlyphs.delete(codePoint);
     }
 
+    // Mark a reserved glyph whose generation failed - renders nothing, advances by metrics
+    markFailed(codePoint: number, fontId?: string, metrics?: GlyphMetrics): void {
+        this.markEmpty(codePoint, false, fontId, metrics);
+        const location = this.glyphIndex.get(codePoint);
+        if (location) {
+            location.failed = true;
+        }
+    }
+
+    // Forget glyphs marked missing so the next request tries again (e.g. after the fallback chain changed)
+    clearMissing(): void {
+        for (const [codePoint, location] of this.glyphIndex) {
+            if (location.missing) {
+                this.glyphIndex.delete(codePoint);
+            }
+        }
+    }
+
     private updateGlyphLocation(
         codePoint: number,
         page: Page<T>,
         pos: { x: number; y: number },
-        metrics: GlyphMetrics
+        metrics: GlyphMetrics,
+        fontId?: string
     ): void {
         const location = this.glyphIndex.get(codePoint);
         if (location) {
-            location.page = { texture: page.texture, width: page.width, height: page.height };
+            location.page = page;
             location.x = pos.x;
             location.y = pos.y;
             location.width = metrics.width;
@@ -152,6 +262,9 @@ export class VariantAtlas<T> {
             location.metrics = metrics;
             location.empty = false;
             location.missing = false;
+            location.failed = false;
+            location.fontId = fontId;
+            this.glyphPages.set(codePoint, page);
         }
         this.pendingGlyphs.delete(codePoint);
     }
@@ -160,10 +273,11 @@ export class VariantAtlas<T> {
         codePoint: number,
         page: Page<T>,
         pos: { x: number; y: number },
-        metrics: GlyphMetrics
+        metrics: GlyphMetrics,
+        fontId?: string
     ): GlyphLocation<T> {
         const location: GlyphLocation<T> = {
-            page: { texture: page.texture, width: page.width, height: page.height },
+            page,
             x: pos.x,
             y: pos.y,
             width: metrics.width,
@@ -171,57 +285,280 @@ export class VariantAtlas<T> {
             metrics,
             empty: false,
             missing: false,
+            failed: false,
+            evicted: false,
+            fontId,
         };
         this.glyphIndex.set(codePoint, location);
+        this.glyphPages.set(codePoint, page);
         this.pendingGlyphs.delete(codePoint);
         return location;
     }
 
-    private getOrCreatePage(isLatin: boolean, glyphHeight: number): Page<T> {
-        if (isLatin) {
-            if (!this.latinPage) {
-                this.latinPage = new Page(this.pageSize, this.pageSize, this.textureFactory);
-            }
-            return this.latinPage;
+    private getPrimaryPage(): Page<T> {
+        if (!this.primaryPage) {
+            this.primaryPage = this.createPage(this.estimatePrimarySize());
+        }
+        return this.primaryPage;
+    }
+
+    // Smallest power-of-two page that holds the whole primary charset at this genSize.
+    // May exceed pageSize, up to maxTextureSize. Whatever doesn't fit (and everything
+    // beyond pageSize in the array modes, whose layers can't be resized) spills onto mixed pages.
+    private estimatePrimarySize(): number {
+        const { pageSize, maxTextureSize, pixelRange, pageMode } = this.config;
+        if (pageMode !== 'texture') return pageSize;
+
+        // Average glyph cell incl. distance field border and page padding
+        const cellWidth = Math.ceil(this.genSize * 0.6 + 2 * pixelRange) + 1;
+        const cellHeight = Math.ceil(this.genSize * 1.25 + 2 * pixelRange) + 1;
+        const area = this.primaryCharset.size * cellWidth * cellHeight;
+
+        let size = pageSize;
+        while (size * size < area && size * 2 <= maxTextureSize) {
+            size *= 2;
         }
+        return size;
+    }
 
-        // Find mixed page with space
+    private getMixedPage(glyphWidth: number, glyphHeight: number): Page<T> {
+        // Find mixed page with space, growing one before adding another
         for (const page of this.mixedPages) {
-            if (page.cursorY + glyphHeight <= page.height) {
+            if (this.makeRoom(page, glyphWidth, glyphHeight)) {
                 return page;
             }
         }
 
-        return this.createMixedPage();
+        const page = this.createMixedPage();
+        this.makeRoom(page, glyphWidth, glyphHeight);
+        return page;
+    }
+
+    // Grow a page until the glyph fits or it reaches full size
+    private makeRoom(page: Page<T>, glyphWidth: number, glyphHeight: number): boolean {
+        while (!page.canFit(glyphWidth, glyphHeight)) {
+            if (!page.canGrow()) return false;
+
+            const oldTexture = page.grow();
+            this.onTextureReplaced?.({
+                oldTexture,
+                texture: page.texture,
+                width: page.width,
+                height: page.height,
+                reason: 'page-grow',
+            });
+        }
+        return true;
+    }
+
+    private createPage(maxSize: number = this.config.pageSize): Page<T> {
+        const { packing, pageMode, initialPageSize } = this.config;
+
+        // Array layers all share the array size - only standalone pages can grow
+        const size = pageMode === 'texture' && initialPageSize
+            ? Math.min(initialPageSize, maxSize)
+            : maxSize;
+        return new Page<T>(size, size, this.textureFactory, packing, this.textureArray, maxSize, undefined, this.format);
     }
 
     private createMixedPage(): Page<T> {
-        if (this.mixedPages.length >= this.maxMixedPages) {
-            console.warn(`VariantAtlas ${this.variantId}: max mixed pages reached, eviction not implemented`);
+        if (this.mixedPages.length >= this.config.maxMixedPages) {
+            return this.evictMixedPage();
         }
 
-        const page = new Page<T>(this.pageSize, this.pageSize, this.textureFactory);
+        const page = this.createPage();
         this.mixedPages.push(page);
         return page;
     }
 
-    hasDirtyPages(): boolean {
-        if (this.latinPage?.dirty) return true;
+    // Reclaim the least recently used mixed page: drop its glyphs and reuse its texture.
+    // Pages holding awaited glyphs go last, then pages filled since the last flush (their
+    // glyphs are about to be reported ready) - the rest first.
+    private evictMixedPage(): Page<T> {
+        const awaited = this.getAwaitedGlyphs?.() ?? new Set<number>();
+        const awaitedPages = new Set<Page<T>>();
+        for (const codePoint of awaited) {
+            const page = this.glyphPages.get(codePoint);
+            if (page) awaitedPages.add(page);
+        }
+        const cost = (page: Page<T>) => (awaitedPages.has(page) ? 2 : 0) + (this.filledPages.has(page) ? 1 : 0);
+
+        let victim = this.mixedPages[0];
         for (const page of this.mixedPages) {
-            if (page.dirty) return true;
+            const [pageCost, victimCost] = [cost(page), cost(victim)];
+            if (pageCost < victimCost || (pageCost === victimCost && page.lastAccessed < victim.lastAccessed)) {
+                victim = page;
+            }
         }
-        return false;
+
+        const codePoints = this.dropPageGlyphs(victim);
+        victim.reset();
+
+        // Move to the back so it is the page new glyphs go to next
+        this.mixedPages.splice(this.mixedPages.indexOf(victim), 1);
+        this.mixedPages.push(victim);
+
+        this.onPageEvicted?.(victim.texture, victim.layer, codePoints);
+        return victim;
     }
 
-    flushDirtyPages(): void {
-        this.latinPage?.flush();
-        for (const page of this.mixedPages) {
-            page.flush();
+    /**
+     * Destroy the least recently used mixed or large page to free memory.
+     * Returns what was on it, or null if only the primary page is left.
+     */
+    releaseLeastRecentPage(): { texture: T; codePoints: number[] } | null {
+        let victim: Page<T> | null = null;
+        for (const page of [...this.mixedPages, ...this.largePages]) {
+            if (!victim || page.lastAccessed < victim.lastAccessed) {
+                victim = page;
+            }
+        }
+        if (!victim) return null;
+
+        const texture = victim.texture;
+        const codePoints = this.dropPageGlyphs(victim);
+        this.mixedPages = this.mixedPages.filter(page => page !== victim);
+        this.filledPages.delete(victim);
+        this.largePages = this.largePages.filter(page => page !== victim);
+        victim.destroy();
+
+        return { texture, codePoints };
+    }
+
+    // Remove every glyph placed on a page from the index - returns their codepoints
+    private dropPageGlyphs(victim: Page<T>): number[] {
+        const codePoints: number[] = [];
+        for (const [codePoint, page] of this.glyphPages) {
+            if (page !== victim) continue;
+            codePoints.push(codePoint);
+            const location = this.glyphIndex.get(codePoint);
+            if (location) {
+                location.evicted = true;
+            }
+        }
+        for (const codePoint of codePoints) {
+            this.glyphPages.delete(codePoint);
+            this.glyphIndex.delete(codePoint);
+        }
+        return codePoints;
+    }
+
+    // Pages and cached glyphs for a snapshot - pending glyphs are left out
+    serialize(): Pick<VariantSnapshot, 'pages' | 'glyphs'> {
+        const pages = this.getAllPages();
+        const snapshot: Pick<VariantSnapshot, 'pages' | 'glyphs'> = {
+            pages: pages.map(page => ({
+                kind: page === this.primaryPage ? 'primary' : this.largePages.includes(page) ? 'large' : 'mixed',
+                width: page.width,
+                height: page.height,
+                maxSize: page.maxSize,
+                usedArea: page.usedArea,
+                pixels: new Uint8Array(page.buffer),
+                packer: page.savePacker(),
+            })),
+            glyphs: [],
+        };
+
+        for (const [codePoint, location] of this.glyphIndex) {
+            const pageIndex = pages.findIndex(page => page === location.page);
+            if (this.pendingGlyphs.has(codePoint) || pageIndex < 0) continue;
+
+            const { x, y, width, height, metrics, empty, missing, failed, fontId } = location;
+            snapshot.glyphs.push({ codePoint, page: pageIndex, x, y, width, height, metrics, empty, missing, failed, fontId });
+        }
+        return snapshot;
+    }
+
+    // Rebuild pages (creating their textures) and the glyph index from a snapshot.
+    // Only valid on a new atlas created with the snapshot's config.
+    restore(snapshot: Pick<VariantSnapshot, 'pages' | 'glyphs'>): void {
+        if (this.getAllPages().length > 0) {
+            throw new Error('VariantAtlas.restore() needs an empty atlas');
+        }
+
+        const pages = snapshot.pages.map(pageSnapshot => this.restorePage(pageSnapshot));
+
+        for (const glyph of snapshot.glyphs) {
+            const page = pages[glyph.page];
+            if (!page) {
+                throw new Error(`Snapshot glyph ${glyph.codePoint} refers to missing page ${glyph.page}`);
+            }
+
+            this.glyphIndex.set(glyph.codePoint, {
+                page,
+                x: glyph.x,
+                y: glyph.y,
+                width: glyph.width,
+                height: glyph.height,
+                metrics: glyph.metrics,
+                empty: glyph.empty,
+                missing: glyph.missing,
+                failed: glyph.failed,
+                evicted: false,
+                fontId: glyph.fontId,
+            });
+            if (!glyph.empty) {
+                this.glyphPages.set(glyph.codePoint, page);
+            }
+        }
+    }
+
+    private restorePage(snapshot: PageSnapshot): Page<T> {
+        const { kind, width, height, maxSize, pixels } = snapshot;
+        const bytes = width * height * pageChannels(this.format);
+        if (pixels.length !== bytes) {
+            throw new Error(`Snapshot page is ${pixels.length} bytes, expected ${bytes}`);
+        }
+
+        // Large pages are standalone textures in every page mode
+        const array = kind === 'large' ? null : this.textureArray;
+        const page = new Page<T>(width, height, this.textureFactory, this.config.packing, array, maxSize, pixels, this.format);
+        page.loadPacker(snapshot.packer);
+        page.usedArea = snapshot.usedArea;
+
+        if (kind === 'primary') {
+            this.primaryPage = page;
+        } else if (kind === 'large') {
+            this.largePages.push(page);
+        } else {
+            this.mixedPages.push(page);
+        }
+        return page;
+    }
+
+    hasPendingGlyphs(): boolean {
+        return this.pendingGlyphs.size > 0;
+    }
+
+    // Codepoints in the index, including empty and missing ones
+    getCodePoints(): number[] {
+        return [...this.glyphIndex.keys()];
+    }
+
+    // Distinct textures of all pages
+    getTextures(): T[] {
+        return [...new Set(this.getAllPages().map(page => page.texture))];
+    }
+
+    hasDirtyPages(): boolean {
+        return this.getAllPages().some(page => page.dirty);
+    }
+
+    // Upload dirty pages, adding the textures that changed to `updated`
+    flushDirtyPages(updated?: Set<T>): void {
+        for (const page of this.getAllPages()) {
+            if (page.flush()) updated?.add(page.texture);
         }
+        this.filledPages.clear();
     }
 
     getPageCount(): number {
-        return (this.latinPage ? 1 : 0) + this.mixedPages.length;
+        return (this.primaryPage ? 1 : 0) + this.mixedPages.length + this.largePages.length;
+    }
+
+    private getAllPages(): Page<T>[] {
+        const pages = [...this.mixedPages, ...this.largePages];
+        return this.primaryPage ? [this.primaryPage, ...pages] : pages;
     }
 
     getGlyphCount(): number {
@@ -229,22 +566,78 @@ export class VariantAtlas<T> {
     }
 
     getMemoryBytes(): number {
-        const pageBytes = this.pageSize * this.pageSize * 4;
-        return this.getPageCount() * pageBytes;
+        if (this.textureArray && this.ownsTextureArray) {
+            return this.textureArray.getMemoryBytes() + this.getLargePageBytes();
+        }
+        let bytes = 0;
+        for (const page of this.getAllPages()) {
+            bytes += page.getMemoryBytes();
+        }
+        return bytes;
+    }
+
+    // Pages in use - unlike getMemoryBytes() not the capacity of a texture array
+    getPageBytes(): number {
+        let bytes = 0;
+        for (const page of this.getAllPages()) {
+            bytes += page.getMemoryBytes();
+        }
+        return bytes;
+    }
+
+    // Standalone large-glyph textures - not part of any texture array
+    getLargePageBytes(): number {
+        let bytes = 0;
+        for (const page of this.largePages) {
+            bytes += page.getMemoryBytes();
+        }
+        return bytes;
+    }
+
+    // Glyph pixels placed across all pages
+    getUsedArea(): number {
+        let area = 0;
+        for (const page of this.getAllPages()) {
+            area += page.usedArea;
+        }
+        return area;
+    }
+
+    // Total pixel area of all pages
+    getPageArea(): number {
+        let area = 0;
+        for (const page of this.getAllPages()) {
+            area += page.width * page.height;
+        }
+        return area;
     }
 
     getLastAccessed(): number {
         return this.lastAccessed;
     }
 
+    // Higher = used more recently
+    getAccessOrder(): number {
+        return this.accessOrder;
+    }
+
+    private touch(): void {
+        this.lastAccessed = Date.now();
+        this.accessOrder = ++accessCounter;
+    }
+
     destroy(): void {
-        this.latinPage?.destroy();
-        for (const page of this.mixedPages) {
+        for (const page of this.getAllPages()) {
             page.destroy();
         }
-        this.latinPage = null;
+        if (this.ownsTextureArray) {
+            this.textureArray?.destroy();
+        }
+        this.primaryPage = null;
         this.mixedPages = [];
+        this.largePages = [];
         this.glyphIndex.clear();
+        this.glyphPages.clear();
         this.pendingGlyphs.clear();
     }
 }
@@ -0,0 +1,23 @@
+/**
+ * Content hashing for cache identity (font bytes in snapshots, variant ids)
+ *
+ * Two FNV-1a lanes with different offset bases give a 64-bit fingerprint.
+ * Not cryptographic - only tells apart fonts that differ.
+ */
+
+const FNV_PRIME = 0x01000193;
+
+// 16 hex chars, stable across runs and platforms
+export function hashBytes(bytes: Uint8Array): string {
+    let a = 0x811C9DC5;
+    let b = 0x050C5D1F;
+    for (let i = 0; i < bytes.length; i++) {
+        a = Math.imul(a ^ bytes[i], FNV_PRIME);
+        b = Math.imul(b ^ bytes[i] ^ (i & 0xFF), FNV_PRIME);
+    }
+    return toHex(a) + toHex(b);
+}
+
+function toHex(value: number): string {
+    return (value >>> 0).toString(16).padStart(8, '0');
+}
@@ -8,9 +8,27 @@
 export { FontAtlas } from './FontAtlas.js';
 export { VariantAtlas } from './VariantAtlas.js';
 export { Page } from './Page.js';
+export { TextureArray } from './TextureArray.js';
+export { Charset, CHARSET_RANGES } from './Charsets.js';
+export { FontInfo } from './FontInfo.js';
+export { Packer, createPacker } from './packing/Packer.js';
+
+// Generation size policies - pick the genSize for a renderSize
+export { GenSizePolicy, GenSizeContext } from './sizing/GenSizePolicy.js';
+export { ThresholdSizePolicy } from './sizing/ThresholdSizePolicy.js';
+export { HysteresisSizePolicy } from './sizing/HysteresisSizePolicy.js';
+export { DevicePixelRatioSizePolicy } from './sizing/DevicePixelRatioSizePolicy.js';
+export { NearestCachedSizePolicy } from './sizing/NearestCachedSizePolicy.js';
+
+// Snapshots - persist the FontAtlas cache between runs
+export { encodeSnapshot, decodeSnapshot, SNAPSHOT_VERSION } from './Snapshot.js';
+export { hashBytes } from './hash.js';
+export { MemoryStorage } from './storage/MemoryStorage.js';
+export { FileSystemStorage } from './storage/FileSystemStorage.js';
+export { IndexedDBStorage } from './storage/IndexedDBStorage.js';
 
 // AtlasGenerator - batch generation of entire atlas sheets
-export { AtlasGenerator, AtlasResult, AtlasTiming, AtlasChar } from './AtlasGenerator.js';
+export { AtlasGenerator, AtlasResult, AtlasTiming, AtlasChar, AtlasKerning, AtlasJson, AtlasSheet } from './AtlasGenerator.js';
 
 // WorkerPool - parallel glyph generation
 export { WorkerPool, WorkerPoolOptions } from './worker/WorkerPool.js';
@@ -18,12 +36,48 @@ export { WorkerPool, WorkerPoolOptions } from './worker/WorkerPool.js';
 // Types
 export {
     TextureFactory,
+    DirtyRect,
     GlyphRequest,
+    FontOptions,
+    FontMetrics,
     GlyphInfo,
     GlyphMetrics,
+    TextAlign,
+    TextStyle,
+    TextLine,
+    TextLayout,
+    TextMeasurement,
+    GlyphWorkerPool,
+    GlyphWorkerResult,
+    ReadyGlyph,
+    GlyphsReadyEvent,
+    GlyphErrorEvent,
+    AtlasEvictionEvent,
+    VariantMismatchEvent,
+    FieldType,
+    PageFormat,
+    VariantOptions,
+    ScaledGlyphMetrics,
+    GlyphBlend,
+    AxisQuantization,
+    AtlasSnapshot,
+    VariantSnapshot,
+    PageSnapshot,
+    GlyphSnapshot,
+    PackerState,
+    SnapshotConfigKey,
+    AtlasStorage,
+    GlyphQuad,
     GlyphLocation,
+    GlyphEvictionEvent,
     AtlasConfig,
     AtlasStatus,
+    PackingStrategy,
+    PageMode,
+    CharsetName,
+    CharsetSpec,
+    CodepointRange,
+    TextureReplacedEvent,
     DEFAULT_CONFIG,
     isLatinChar,
     LATIN_CODEPOINTS,
@@ -0,0 +1,154 @@
+import type { PackerState } from '../types.js';
+import type { Packer } from './Packer.js';
+import { checkPackerState } from './Packer.js';
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// MaxRects packer (best short side fit): keeps the list of maximal free rectangles
+// and splits every one a placed rect overlaps. Densest of the three, slowest per insert.
+export class MaxRectsPacker implements Packer {
+
+    private width: number;
+    private height: number;
+    private freeRects: Rect[] = [];
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.reset();
+    }
+
+    pack(w: number, h: number): { x: number; y: number } | null {
+        const node = this.findPosition(w, h);
+        if (!node) return null;
+
+        this.place(node);
+        return { x: node.x, y: node.y };
+    }
+
+    canFit(w: number, h: number): boolean {
+        return this.findPosition(w, h) !== null;
+    }
+
+    reset(): void {
+        this.freeRects = [{ x: 0, y: 0, width: this.width, height: this.height }];
+    }
+
+    grow(width: number, height: number): void {
+        // New area is empty - free rects touching the old edges extend into it
+        const rects: Rect[] = [];
+        for (const free of this.freeRects) {
+            const extended = { ...free };
+            if (free.x + free.width === this.width) extended.width = width - free.x;
+            if (free.y + free.height === this.height) extended.height = height - free.y;
+            rects.push(extended);
+        }
+        if (width > this.width) {
+            rects.push({ x: this.width, y: 0, width: width - this.width, height });
+        }
+        if (height > this.height) {
+            rects.push({ x: 0, y: this.height, width, height: height - this.height });
+        }
+
+        this.width = width;
+        this.height = height;
+        this.freeRects = this.prune(rects);
+    }
+
+    // Free rects flattened as x, y, width, height
+    save(): PackerState {
+        return { strategy: 'maxrects', data: this.freeRects.flatMap(rect => [rect.x, rect.y, rect.width, rect.height]) };
+    }
+
+    load(state: PackerState): void {
+        checkPackerState(state, 'maxrects', 4);
+        this.freeRects = [];
+        for (let i = 0; i < state.data.length; i += 4) {
+            this.freeRects.push({ x: state.data[i], y: state.data[i + 1], width: state.data[i + 2], height: state.data[i + 3] });
+        }
+    }
+
+    private findPosition(w: number, h: number): Rect | null {
+        let best: Rect | null = null;
+        let bestShort = Infinity;
+        let bestLong = Infinity;
+
+        for (const free of this.freeRects) {
+            if (w > free.width || h > free.height) continue;
+
+            const leftoverW = free.width - w;
+            const leftoverH = free.height - h;
+            const shortSide = Math.min(leftoverW, leftoverH);
+            const longSide = Math.max(leftoverW, leftoverH);
+
+            if (shortSide < bestShort || (shortSide === bestShort && longSide < bestLong)) {
+                best = { x: free.x, y: free.y, width: w, height: h };
+                bestShort = shortSide;
+                bestLong = longSide;
+            }
+        }
+
+        return best;
+    }
+
+    private place(used: Rect): void {
+        const next: Rect[] = [];
+
+        for (const free of this.freeRects) {
+            if (!this.intersects(free, used)) {
+                next.push(free);
+                continue;
+            }
+
+            // Split free rect into up to four maximal pieces around the used rect
+            if (used.x > free.x) {
+                next.push({ x: free.x, y: free.y, width: used.x - free.x, height: free.height });
+            }
+            if (used.x + used.width < free.x + free.width) {
+                const x = used.x + used.width;
+                next.push({ x, y: free.y, width: free.x + free.width - x, height: free.height });
+            }
+            if (used.y > free.y) {
+                next.push({ x: free.x, y: free.y, width: free.width, height: used.y - free.y });
+            }
+            if (used.y + used.height < free.y + free.height) {
+                const y = used.y + used.height;
+                next.push({ x: free.x, y, width: free.width, height: free.y + free.height - y });
+            }
+        }
+
+        this.freeRects = this.prune(next);
+    }
+
+    // Drop free rects fully contained in another
+    private prune(rects: Rect[]): Rect[] {
+        return rects.filter((a, i) => {
+            for (let j = 0; j < rects.length; j++) {
+                if (i === j) continue;
+                const b = rects[j];
+                const contained = a.x >= b.x && a.y >= b.y &&
+                    a.x + a.width <= b.x + b.width &&
+                    a.y + a.height <= b.y + b.height;
+                // Identical rects: keep the first one only
+                if (contained && (!this.sameRect(a, b) || j < i)) {
+                    return false;
+                }
+            }
+            return true;
+        });
+    }
+
+    private intersects(a: Rect, b: Rect): boolean {
+        return a.x < b.x + b.width && a.x + a.width > b.x &&
+            a.y < b.y + b.height && a.y + a.height > b.y;
+    }
+
+    private sameRect(a: Rect, b: Rect): boolean {
+        return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+    }
+}
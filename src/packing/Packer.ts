@@ -0,0 +1,47 @@
+import type { PackingStrategy, PackerState } from '../types.js';
+import { ShelfPacker } from './ShelfPacker.js';
+import { SkylinePacker } from './SkylinePacker.js';
+import { MaxRectsPacker } from './MaxRectsPacker.js';
+
+// Rectangle packing strategy for a single page
+// Sizes passed in already include page padding
+export interface Packer {
+    // Place a w x h rect, returns top-left or null if it doesn't fit
+    pack(w: number, h: number): { x: number; y: number } | null;
+
+    // Would pack(w, h) succeed? Does not modify state
+    canFit(w: number, h: number): boolean;
+
+    // Forget all placed rects
+    reset(): void;
+
+    // Extend the packing area to the right and bottom, keeping placed rects
+    grow(width: number, height: number): void;
+
+    // Free-space bookkeeping for snapshots - load() expects a packer of the same size
+    save(): PackerState;
+    load(state: PackerState): void;
+}
+
+export function createPacker(strategy: PackingStrategy, width: number, height: number): Packer {
+    switch (strategy) {
+        case 'shelf':
+            return new ShelfPacker(width, height);
+        case 'skyline':
+            return new SkylinePacker(width, height);
+        case 'maxrects':
+            return new MaxRectsPacker(width, height);
+        default:
+            throw new Error(`Unknown packing strategy: ${strategy}`);
+    }
+}
+
+// Shared by the packers' load() - a snapshot must come from the same strategy
+export function checkPackerState(state: PackerState, strategy: PackingStrategy, stride: number): void {
+    if (state.strategy !== strategy) {
+        throw new Error(`Packer state is for '${state.strategy}', not '${strategy}'`);
+    }
+    if (state.data.length % stride !== 0) {
+        throw new Error(`Malformed '${strategy}' packer state`);
+    }
+}
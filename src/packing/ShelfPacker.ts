@@ -0,0 +1,77 @@
+import type { PackerState } from '../types.js';
+import type { Packer } from './Packer.js';
+import { checkPackerState } from './Packer.js';
+
+// Row-by-row packer: fill a row left to right, start a new row below the tallest rect
+// Fast and predictable, wastes space when tall and short rects interleave
+export class ShelfPacker implements Packer {
+
+    private width: number;
+    private height: number;
+    private cursorX: number = 0;
+    private cursorY: number = 0;
+    private rowHeight: number = 0;
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+    }
+
+    pack(w: number, h: number): { x: number; y: number } | null {
+        const pos = this.findPosition(w, h);
+        if (!pos) return null;
+
+        if (pos.y !== this.cursorY) {
+            // Moved to next row
+            this.cursorY = pos.y;
+            this.rowHeight = 0;
+        }
+
+        this.cursorX = pos.x + w;
+        this.rowHeight = Math.max(this.rowHeight, h);
+        return pos;
+    }
+
+    canFit(w: number, h: number): boolean {
+        return this.findPosition(w, h) !== null;
+    }
+
+    reset(): void {
+        this.cursorX = 0;
+        this.cursorY = 0;
+        this.rowHeight = 0;
+    }
+
+    grow(width: number, height: number): void {
+        // Existing rows keep their width - new space is used from the current row on
+        this.width = width;
+        this.height = height;
+    }
+
+    save(): PackerState {
+        return { strategy: 'shelf', data: [this.cursorX, this.cursorY, this.rowHeight] };
+    }
+
+    load(state: PackerState): void {
+        checkPackerState(state, 'shelf', 3);
+        [this.cursorX, this.cursorY, this.rowHeight] = state.data;
+    }
+
+    private findPosition(w: number, h: number): { x: number; y: number } | null {
+        let x = this.cursorX;
+        let y = this.cursorY;
+
+        // Check if fits in current row
+        if (x + w > this.width) {
+            y += this.rowHeight;
+            x = 0;
+        }
+
+        // Check if fits vertically
+        if (w > this.width || y + h > this.height) {
+            return null;
+        }
+
+        return { x, y };
+    }
+}
@@ -0,0 +1,124 @@
+import type { PackerState } from '../types.js';
+import type { Packer } from './Packer.js';
+import { checkPackerState } from './Packer.js';
+
+interface SkylineSegment {
+    x: number;
+    y: number;
+    width: number;
+}
+
+// Bottom-left skyline packer: tracks the top edge of placed rects as horizontal segments
+// and drops each rect at the lowest position it fits. Good fill for glyphs of mixed height.
+export class SkylinePacker implements Packer {
+
+    private width: number;
+    private height: number;
+    private skyline: SkylineSegment[] = [];
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.reset();
+    }
+
+    pack(w: number, h: number): { x: number; y: number } | null {
+        const best = this.findPosition(w, h);
+        if (!best) return null;
+
+        this.addSegment(best.index, best.x, best.y + h, w);
+        return { x: best.x, y: best.y };
+    }
+
+    canFit(w: number, h: number): boolean {
+        return this.findPosition(w, h) !== null;
+    }
+
+    reset(): void {
+        this.skyline = [{ x: 0, y: 0, width: this.width }];
+    }
+
+    grow(width: number, height: number): void {
+        if (width > this.width) {
+            this.skyline.push({ x: this.width, y: 0, width: width - this.width });
+        }
+        this.width = width;
+        this.height = height;
+    }
+
+    // Segments flattened as x, y, width
+    save(): PackerState {
+        return { strategy: 'skyline', data: this.skyline.flatMap(seg => [seg.x, seg.y, seg.width]) };
+    }
+
+    load(state: PackerState): void {
+        checkPackerState(state, 'skyline', 3);
+        this.skyline = [];
+        for (let i = 0; i < state.data.length; i += 3) {
+            this.skyline.push({ x: state.data[i], y: state.data[i + 1], width: state.data[i + 2] });
+        }
+    }
+
+    private findPosition(w: number, h: number): { index: number; x: number; y: number } | null {
+        let best: { index: number; x: number; y: number } | null = null;
+        let bestWidth = Infinity;
+
+        for (let i = 0; i < this.skyline.length; i++) {
+            const y = this.fitAt(i, w, h);
+            if (y === null) continue;
+
+            // Lowest top edge wins, ties go to the narrowest segment
+            const segWidth = this.skyline[i].width;
+            if (!best || y < best.y || (y === best.y && segWidth < bestWidth)) {
+                best = { index: i, x: this.skyline[i].x, y };
+                bestWidth = segWidth;
+            }
+        }
+
+        return best;
+    }
+
+    // Y at which a w x h rect rests when its left edge is at segment i, or null if it doesn't fit
+    private fitAt(index: number, w: number, h: number): number | null {
+        const x = this.skyline[index].x;
+        if (x + w > this.width) return null;
+
+        let remaining = w;
+        let y = 0;
+        for (let i = index; remaining > 0; i++) {
+            const seg = this.skyline[i];
+            y = Math.max(y, seg.y);
+            if (y + h > this.height) return null;
+            remaining -= seg.width;
+        }
+        return y;
+    }
+
+    private addSegment(index: number, x: number, y: number, w: number): void {
+        this.skyline.splice(index, 0, { x, y, width: w });
+
+        // Shrink or remove segments now covered by the new one
+        for (let i = index + 1; i < this.skyline.length; i++) {
+            const seg = this.skyline[i];
+            const prev = this.skyline[i - 1];
+            const prevRight = prev.x + prev.width;
+            if (seg.x >= prevRight) break;
+
+            const shrink = prevRight - seg.x;
+            seg.x += shrink;
+            seg.width -= shrink;
+            if (seg.width > 0) break;
+            this.skyline.splice(i, 1);
+            i--;
+        }
+
+        // Merge neighbours at the same height
+        for (let i = 0; i < this.skyline.length - 1; i++) {
+            if (this.skyline[i].y === this.skyline[i + 1].y) {
+                this.skyline[i].width += this.skyline[i + 1].width;
+                this.skyline.splice(i + 1, 1);
+                i--;
+            }
+        }
+    }
+}
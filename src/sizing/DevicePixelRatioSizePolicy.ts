@@ -0,0 +1,23 @@
+import type { GenSizeContext, GenSizePolicy } from './GenSizePolicy.js';
+import { ThresholdSizePolicy } from './ThresholdSizePolicy.js';
+
+// Sizes for physical pixels: renderSize (CSS pixels) times the device pixel ratio.
+// The ratio is read on every request unless a fixed number is given.
+export class DevicePixelRatioSizePolicy implements GenSizePolicy {
+
+    private ratio: number | (() => number);
+    private inner: GenSizePolicy;
+
+    constructor(
+        ratio: number | (() => number) = () => globalThis.devicePixelRatio ?? 1,
+        inner: GenSizePolicy = new ThresholdSizePolicy()
+    ) {
+        this.ratio = ratio;
+        this.inner = inner;
+    }
+
+    select(renderSize: number, context: GenSizeContext): number {
+        const ratio = typeof this.ratio === 'number' ? this.ratio : this.ratio();
+        return this.inner.select(renderSize * (ratio > 0 ? ratio : 1), context);
+    }
+}
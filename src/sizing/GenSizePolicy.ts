@@ -0,0 +1,19 @@
+// What a GenSizePolicy knows about the glyph being sized
+export interface GenSizeContext {
+    variantId: string;
+    sizeKey: string;             // GlyphRequest.sizeKey, default variantId - scope of remembered state
+    genSizes: number[];          // config.genSizes, ascending
+    sizeThresholds: number[];    // config.sizeThresholds, one fewer than genSizes
+    peek: boolean;               // FontAtlas only looks up which atlas a request uses - change no state
+
+    // Is the glyph already generated at genSize?
+    isCached(genSize: number): boolean;
+
+    // Queue the glyph at genSize without returning it (no-op if cached, pending or peeking)
+    prefetch(genSize: number): void;
+}
+
+// Picks the generation size for a requested render size - must return one of context.genSizes
+export interface GenSizePolicy {
+    select(renderSize: number, context: GenSizeContext): number;
+}
@@ -0,0 +1,44 @@
+import type { GenSizeContext, GenSizePolicy } from './GenSizePolicy.js';
+import { ThresholdSizePolicy } from './ThresholdSizePolicy.js';
+
+// Keeps a variant on its last genSize until renderSize is more than margin (a fraction)
+// past the threshold, so text zooming around a threshold doesn't flip atlases every frame.
+// The last size is remembered per context.sizeKey - give text runs of one variant that are
+// drawn at different sizes their own GlyphRequest.sizeKey.
+export class HysteresisSizePolicy implements GenSizePolicy {
+
+    private margin: number;
+    private inner: GenSizePolicy;
+    private lastSizes: Map<string, number> = new Map();
+
+    constructor(margin: number = 0.1, inner: GenSizePolicy = new ThresholdSizePolicy()) {
+        if (!(margin >= 0)) {
+            throw new Error(`Hysteresis margin must be >= 0, got ${margin}`);
+        }
+        this.margin = margin;
+        this.inner = inner;
+    }
+
+    select(renderSize: number, context: GenSizeContext): number {
+        const ideal = this.inner.select(renderSize, context);
+        const last = this.lastSizes.get(context.sizeKey);
+
+        // Only move as far as renderSize is clear of the band around each threshold
+        let genSize = ideal;
+        if (last !== undefined && ideal > last) {
+            genSize = this.inner.select(renderSize / (1 + this.margin), context);
+        } else if (last !== undefined && ideal < last) {
+            genSize = this.inner.select(renderSize * (1 + this.margin), context);
+        }
+
+        if (!context.peek) {
+            this.lastSizes.set(context.sizeKey, genSize);
+        }
+        return genSize;
+    }
+
+    // Forget the remembered sizes, e.g. after a zoom gesture ends
+    reset(): void {
+        this.lastSizes.clear();
+    }
+}
@@ -0,0 +1,31 @@
+import type { GenSizeContext, GenSizePolicy } from './GenSizePolicy.js';
+import { ThresholdSizePolicy } from './ThresholdSizePolicy.js';
+
+// Returns a glyph already generated at the genSize nearest the ideal one (larger wins ties)
+// while the ideal one is queued, so zooming shows slightly soft text instead of gaps.
+// onGlyphsReady fires as usual once the ideal size is ready - request the glyph again.
+export class NearestCachedSizePolicy implements GenSizePolicy {
+
+    private inner: GenSizePolicy;
+
+    constructor(inner: GenSizePolicy = new ThresholdSizePolicy()) {
+        this.inner = inner;
+    }
+
+    select(renderSize: number, context: GenSizeContext): number {
+        const ideal = this.inner.select(renderSize, context);
+        if (context.isCached(ideal)) return ideal;
+
+        let nearest: number | null = null;
+        for (const genSize of context.genSizes) {
+            if (genSize === ideal || !context.isCached(genSize)) continue;
+            if (nearest === null || Math.abs(genSize - ideal) <= Math.abs(nearest - ideal)) {
+                nearest = genSize;
+            }
+        }
+        if (nearest === null) return ideal;
+
+        context.prefetch(ideal);
+        return nearest;
+    }
+}
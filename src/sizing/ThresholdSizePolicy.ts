@@ -0,0 +1,16 @@
+import type { GenSizeContext, GenSizePolicy } from './GenSizePolicy.js';
+
+// Default: renderSize <= sizeThresholds[i] → genSizes[i], larger → the last genSize
+export class ThresholdSizePolicy implements GenSizePolicy {
+
+    select(renderSize: number, context: GenSizeContext): number {
+        const { genSizes, sizeThresholds } = context;
+
+        for (let i = 0; i < sizeThresholds.length; i++) {
+            if (renderSize <= sizeThresholds[i]) {
+                return genSizes[i];
+            }
+        }
+        return genSizes[genSizes.length - 1];
+    }
+}
@@ -0,0 +1,40 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { AtlasStorage } from '../types.js';
+
+// One file per key in a directory (Node.js). Created on first save.
+export class FileSystemStorage implements AtlasStorage {
+
+    private directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async load(key: string): Promise<Uint8Array | null> {
+        try {
+            return new Uint8Array(await readFile(this.filePath(key)));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async save(key: string, data: Uint8Array): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+
+        // Write then rename so a crash never leaves a half-written snapshot
+        const path = this.filePath(key);
+        const temp = `${path}.${process.pid}.tmp`;
+        await writeFile(temp, data);
+        await rename(temp, path);
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.filePath(key), { force: true });
+    }
+
+    private filePath(key: string): string {
+        return join(this.directory, `${encodeURIComponent(key)}.katl`);
+    }
+}
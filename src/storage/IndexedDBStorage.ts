@@ -0,0 +1,58 @@
+import type { AtlasStorage } from '../types.js';
+
+const STORE_NAME = 'snapshots';
+
+// Snapshots in an IndexedDB object store (browsers). Pass a factory to use
+// something other than the global indexedDB, e.g. an in-memory fake in tests.
+export class IndexedDBStorage implements AtlasStorage {
+
+    private databaseName: string;
+    private factory: IDBFactory;
+    private database: Promise<IDBDatabase> | null = null;
+
+    constructor(databaseName: string = 'kitatlas', factory: IDBFactory = indexedDB) {
+        this.databaseName = databaseName;
+        this.factory = factory;
+    }
+
+    async load(key: string): Promise<Uint8Array | null> {
+        const value = await this.request('readonly', store => store.get(key));
+        return value ? new Uint8Array(value as ArrayBuffer) : null;
+    }
+
+    async save(key: string, data: Uint8Array): Promise<void> {
+        // Store an exact-size ArrayBuffer, not a view of a larger one
+        const buffer = data.slice().buffer;
+        await this.request('readwrite', store => store.put(buffer, key));
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.request('readwrite', store => store.delete(key));
+    }
+
+    private async request<R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+        const database = await this.open();
+        return new Promise((resolve, reject) => {
+            const request = run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise((resolve, reject) => {
+                const request = this.factory.open(this.databaseName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(STORE_NAME);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.database = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.database;
+    }
+}
@@ -0,0 +1,20 @@
+import type { AtlasStorage } from '../types.js';
+
+// Keeps snapshots in a Map - for tests, or sharing a cache between atlases in one session
+export class MemoryStorage implements AtlasStorage {
+
+    private entries: Map<string, Uint8Array> = new Map();
+
+    async load(key: string): Promise<Uint8Array | null> {
+        const data = this.entries.get(key);
+        return data ? new Uint8Array(data) : null;
+    }
+
+    async save(key: string, data: Uint8Array): Promise<void> {
+        this.entries.set(key, new Uint8Array(data));
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+}
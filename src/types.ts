@@ -1,30 +1,113 @@
 import type { VariationAxis } from '../msdf-generator';
+import type { GenSizePolicy } from './sizing/GenSizePolicy.js';
 
 // Texture factory - injected by consumer (PixiJS, WebGPU, etc.)
+// Page buffers are 'rgba8' (4 bytes per pixel), or 'r8' (1 byte) for variants with a
+// single-channel field type - create() / createLayered() are told which.
 export interface TextureFactory<T> {
-    create(width: number, height: number, buffer: Uint8Array): T;
+    create(width: number, height: number, buffer: Uint8Array, format?: PageFormat): T;
     update(texture: T, buffer: Uint8Array): void;
     destroy(texture: T): void;
+
+    // Optional partial upload. buffer is the full page (row stride = page width * bytes per pixel),
+    // only the x/y/width/height region changed. Falls back to update() if not provided.
+    updateRegion?(texture: T, buffer: Uint8Array, x: number, y: number, width: number, height: number): void;
+
+    // Layered (2D array) textures - required for the 'variant-array' / 'atlas-array' page modes
+    // createLayered: allocate an empty array texture with `layers` layers
+    // updateLayer: upload a region of one layer (buffer is the full layer, stride = width * bytes per pixel)
+    // resizeLayered: optional, return a bigger array with existing layers copied GPU-side.
+    //   If omitted, a new array is created and every layer re-uploaded from its buffer.
+    createLayered?(width: number, height: number, layers: number, format?: PageFormat): T;
+    updateLayer?(texture: T, layer: number, buffer: Uint8Array, x: number, y: number, width: number, height: number): void;
+    resizeLayered?(texture: T, width: number, height: number, layers: number): T;
+}
+
+// Region of a page changed since the last flush
+export interface DirtyRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Options for FontAtlas.registerFont()
+export interface FontOptions {
+    variationAxes?: VariationAxis[];  // default axes for requests that don't pass their own
 }
 
 // Request for a single glyph
 export interface GlyphRequest {
     codePoint: number;
-    variantId: string;
-    fontBuffer: Uint8Array;
+    variantId?: string;   // omit to derive it from the font bytes and axes (FontAtlas.getVariantId)
+    fontId: string;       // id passed to FontAtlas.registerFont()
     variationAxes?: VariationAxis[];
     renderSize: number;
+    priority?: number;    // higher generates first, default 0 (e.g. 1 visible text, -1 prefetch)
+    blend?: boolean;      // with axisQuantization: also return the next instance and a mix weight (needs a derived variantId)
+    sizeKey?: string;     // groups requests for stateful GenSizePolicy choices, e.g. one per text run - default variantId
 }
 
 // Returned glyph info with texture reference
 export interface GlyphInfo<T> {
     texture: T;
     uvs: { u0: number; v0: number; u1: number; v1: number };
-    metrics: GlyphMetrics;
+    layer: number;     // array layer in 'variant-array' / 'atlas-array' page modes, else 0
+    metrics: GlyphMetrics;   // genSize pixels
+    fieldType: FieldType;    // picks the shader - the sdf / psdf value is in the red channel
+    scaled: ScaledGlyphMetrics;  // metrics at the request's renderSize
+    pxRange: number;   // screen pixels the distance range spans at renderSize - the shader's uPxRange
     genSize: number;
     cached: boolean;
     empty: boolean;    // true if glyph has no pixels (space, etc.) - still has valid advance
-    missing: boolean;  // true if glyph not in font at all
+    missing: boolean;  // true if glyph not in any font of the chain
+    failed: boolean;   // true if generation kept failing (see onError) - empty, advance from hmtx
+    provisional: boolean;  // not cached yet - location and genSize are the same glyph at another size
+    fontId: string;    // font that supplied the glyph - the request font or one of its fallbacks
+    variationAxes?: VariationAxis[];  // axes the glyph was generated with, after axisQuantization
+    blend?: GlyphBlend<T>;            // blended requests between two instances
+}
+
+// Second instance of a blended request - mix the two in the shader by weight
+export interface GlyphBlend<T> {
+    to: GlyphInfo<T>;   // glyph at the next instance along the blended axis
+    weight: number;     // 0..1, 0 = the primary GlyphInfo, 1 = to
+}
+
+// A glyph that finished generating (or was found missing / empty)
+export interface ReadyGlyph {
+    variantId: string;
+    genSize: number;
+    codePoint: number;
+    fontId: string;    // font that supplied the glyph
+    empty: boolean;
+    missing: boolean;
+    failed: boolean;
+    upgrade: boolean;  // a provisional stand-in was handed out for it - request it again
+}
+
+// A variantId was used with other font bytes or axes than it was first used with
+export interface VariantMismatchEvent {
+    variantId: string;
+    expected: { fontId: string; variationAxes?: VariationAxis[] };   // first use
+    received: { fontId: string; variationAxes?: VariationAxis[] };
+}
+
+// Passed to FontAtlas.onError when generating a glyph throws
+export interface GlyphErrorEvent {
+    variantId: string;
+    genSize: number;
+    codePoint: number;
+    fontId: string;    // font the glyph was being generated from
+    error: unknown;    // what was thrown
+    attempt: number;   // 1 for the first failure
+    willRetry: boolean;  // false = glyph is now marked failed
+}
+
+// Passed to onGlyphsReady - invalidate only text that uses these glyphs or textures
+export interface GlyphsReadyEvent<T> {
+    glyphs: ReadyGlyph[];
+    textures: Set<T>;  // page textures uploaded since the last event
 }
 
 // Glyph metrics for layout
@@ -37,6 +120,106 @@ export interface GlyphMetrics {
     planeBounds: { l: number; b: number; r: number; t: number };
 }
 
+// GlyphMetrics scaled to a render size - the quad covers the whole bitmap, pixelRange border included
+export interface ScaledGlyphMetrics {
+    advance: number;
+    x: number;         // quad left edge from the pen position
+    y: number;         // quad top edge from the baseline, y down
+    width: number;     // quad size
+    height: number;
+}
+
+// Result of FontAtlas.measureText() - pixels, single line, no glyphs generated
+export interface TextMeasurement {
+    width: number;                                    // sum of advances incl. kerning
+    inkBounds: { l: number; b: number; r: number; t: number };  // outline extent, y up from the baseline
+    advances: number[];                               // per code point, kerning to the next one included
+    clusters: number[];                               // UTF-16 index of each code point
+}
+
+export type TextAlign = 'left' | 'center' | 'right' | 'justify';
+
+// Style for FontAtlas.layoutText() - sizes and spacing in pixels
+export interface TextStyle {
+    variantId?: string;      // omit to derive it from the font bytes and axes
+    fontId: string;
+    fontSize: number;
+    variationAxes?: VariationAxis[];
+    maxWidth?: number;       // wrap at spaces (or mid-word if a word doesn't fit); unset = no wrapping
+    align?: TextAlign;       // default 'left'; justify leaves the last line of a paragraph left-aligned
+    letterSpacing?: number;  // added between glyphs
+    lineSpacing?: number;    // added between lines
+    kerning?: boolean;       // default true
+    sizeKey?: string;        // GlyphRequest.sizeKey for the glyphs of this text
+}
+
+// A positioned glyph - y grows down from the top of the text block
+export interface GlyphQuad<T> {
+    codePoint: number;
+    cluster: number;   // UTF-16 index of the code point in the source string
+    line: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    texture: T;
+    uvs: { u0: number; v0: number; u1: number; v1: number };
+    layer: number;
+}
+
+export interface TextLine {
+    start: number;     // UTF-16 range in the source string, end exclusive (excludes the newline)
+    end: number;
+    x: number;         // left edge after alignment
+    baseline: number;  // y of the baseline
+    width: number;     // excluding trailing spaces
+}
+
+export interface TextLayout<T> {
+    quads: GlyphQuad<T>[];   // only glyphs with pixels - spaces and pending glyphs have none
+    lines: TextLine[];
+    width: number;           // widest line
+    height: number;
+    complete: boolean;       // false while glyphs are pending - lay out again after onGlyphsReady
+}
+
+// How glyphs are packed into a page
+//   shelf    - rows, fastest, most waste with mixed glyph heights
+//   skyline  - bottom-left skyline, good general choice
+//   maxrects - best short side fit, densest, slowest
+export type PackingStrategy = 'shelf' | 'skyline' | 'maxrects';
+
+// How pages map to textures
+//   texture       - one texture per page
+//   variant-array - pages of a variant atlas are layers of one array texture
+//   atlas-array   - every page of the FontAtlas is a layer of one array texture
+export type PageMode = 'texture' | 'variant-array' | 'atlas-array';
+
+// Distance field generated per glyph
+//   sdf   - true signed distance, 1 channel (rounds corners when magnified)
+//   psdf  - pseudo signed distance (median of the MSDF channels), 1 channel
+//   msdf  - multi-channel, sharp corners, 3 channels
+//   mtsdf - msdf plus the true SDF in alpha (outlines, glows), 4 channels
+export type FieldType = 'sdf' | 'psdf' | 'msdf' | 'mtsdf';
+
+// Page pixel layout - 'r8' for the single-channel field types, else 'rgba8'
+export type PageFormat = 'rgba8' | 'r8';
+
+// Per-variant generation options (FontAtlas.setVariantOptions) - unset ones follow the config
+export interface VariantOptions {
+    fieldType?: FieldType;
+    pixelRange?: number;
+}
+
+// Predefined primary page charsets (see CHARSET_RANGES)
+export type CharsetName = 'latin' | 'ascii' | 'latin1' | 'latin-ext-a' | 'cyrillic' | 'greek' | 'vietnamese';
+
+// Inclusive codepoint range [start, end]
+export type CodepointRange = [number, number];
+
+// A predefined charset or a custom range
+export type CharsetSpec = CharsetName | CodepointRange;
+
 // Atlas configuration
 export interface AtlasConfig {
     genSizes: number[];
@@ -44,6 +227,117 @@ export interface AtlasConfig {
     pageSize: number;
     maxMixedPages: number;
     pixelRange: number;
+    fieldType: FieldType;      // default field type, override per variant with setVariantOptions()
+    packing: PackingStrategy;
+    pageMode: PageMode;
+    initialPageSize?: number;  // start pages this small and double up to pageSize ('texture' mode only)
+    maxTextureSize: number;    // upper bound for the primary page, which may be sized beyond pageSize
+    primaryCharsets: CharsetSpec[];  // hot set kept on the primary page, never evicted
+    autoProcess: boolean;      // generate automatically after getGlyph(); false = only via pump()
+    frameBudgetMs?: number;    // auto mode: max time per run, the rest continues next frame
+    maxRetries: number;        // times a glyph that threw is queued again before it is marked failed
+    maxMemoryBytes?: number;   // ceiling on page pixels in use - least recently used variant atlases, then pages, are freed
+    idleTimeoutMs?: number;    // free variant atlases not used for this long
+    axisQuantization?: Record<string, AxisQuantization>;  // per axis tag - snap requested values to cached instances
+    genSizePolicy?: GenSizePolicy;  // picks the genSize for a renderSize, default ThresholdSizePolicy
+}
+
+// Snap grid for one variation axis: a step in user units (e.g. 100 for wght) or explicit instance values
+export type AxisQuantization = number | number[];
+
+// Font-wide vertical metrics - in font units from FontInfo, scaled from FontAtlas.getFontMetrics()
+export interface FontMetrics {
+    unitsPerEm: number;          // always in font units
+    ascender: number;            // above baseline (positive)
+    descender: number;           // below baseline (negative)
+    lineGap: number;
+    lineHeight: number;          // ascender - descender + lineGap
+    capHeight: number;           // 0 if the font doesn't record it
+    xHeight: number;             // 0 if the font doesn't record it
+    underlinePosition: number;   // top of the underline, usually negative
+    underlineThickness: number;
+}
+
+// Result of one worker generation - matches the WorkerPool message protocol
+export interface GlyphWorkerResult {
+    charCode: number;
+    success: boolean;
+    metrics?: {
+        width: number;
+        height: number;
+        advance: number;
+        planeBounds: { l: number; b: number; r: number; t: number };
+    };
+    pixels?: Float32Array;
+    timeMs: number;
+}
+
+// What FontAtlas needs from a worker pool - WorkerPool (Node), WorkerPoolBrowser and
+// WorkerPoolDeno all fit. A pool is bound to the font bytes it was created with.
+export interface GlyphWorkerPool {
+    readonly workerCount: number;
+    generateGlyph(charCode: number, fontSize: number, pixelRange: number, glyphType: 'msdf' | 'mtsdf'): Promise<GlyphWorkerResult>;
+}
+
+// Free-space bookkeeping of a page packer - numbers flattened per strategy
+export interface PackerState {
+    strategy: PackingStrategy;
+    data: number[];
+}
+
+// One page of a snapshot
+export interface PageSnapshot {
+    kind: 'primary' | 'mixed' | 'large';
+    width: number;
+    height: number;
+    maxSize: number;
+    usedArea: number;
+    pixels: Uint8Array;   // width * height * bytes per pixel of the variant's page format
+    packer: PackerState;
+}
+
+// One cached glyph of a snapshot - pending glyphs are not saved
+export interface GlyphSnapshot {
+    codePoint: number;
+    page: number;         // index into VariantSnapshot.pages
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    metrics: GlyphMetrics;
+    empty: boolean;
+    missing: boolean;
+    failed: boolean;
+    fontId?: string;
+}
+
+export interface VariantSnapshot {
+    variantId: string;
+    genSize: number;
+    fontId: string;
+    variationAxes?: VariationAxis[];
+    fieldType: FieldType;
+    pixelRange: number;
+    pages: PageSnapshot[];
+    glyphs: GlyphSnapshot[];
+}
+
+// Result of FontAtlas.serialize() - restore() refuses it if fonts or config differ
+export interface AtlasSnapshot {
+    version: number;
+    config: Pick<AtlasConfig, SnapshotConfigKey>;
+    fonts: { fontId: string; hash: string }[];   // every font a variant or glyph references
+    variants: VariantSnapshot[];
+}
+
+// Config that decides what pixels and layout a snapshot holds
+export type SnapshotConfigKey = 'genSizes' | 'sizeThresholds' | 'pageSize' | 'pixelRange' | 'fieldType' | 'packing' | 'pageMode' | 'initialPageSize' | 'primaryCharsets';
+
+// Where FontAtlas.saveTo() / loadFrom() keep encoded snapshots
+export interface AtlasStorage {
+    load(key: string): Promise<Uint8Array | null>;
+    save(key: string, data: Uint8Array): Promise<void>;
+    delete(key: string): Promise<void>;
 }
 
 // Status for debugging/monitoring
@@ -52,11 +346,12 @@ export interface AtlasStatus {
     pageCount: number;
     glyphCount: number;
     memoryBytes: number;
+    fillRatio: number;   // glyph pixels / total page pixels (0-1)
 }
 
 // Internal: location of a glyph within a page
 export interface GlyphLocation<T> {
-    page: { texture: T; width: number; height: number };
+    page: { texture: T; width: number; height: number; layer: number };
     x: number;
     y: number;
     width: number;
@@ -64,6 +359,41 @@ export interface GlyphLocation<T> {
     metrics: GlyphMetrics;
     empty: boolean;    // no pixels to render
     missing: boolean;  // glyph not in font
+    failed: boolean;   // generation failed - treated like empty
+    evicted: boolean;  // page was reclaimed - location no longer valid
+    fontId?: string;   // font that supplied the glyph, unset while pending
+}
+
+// Glyphs dropped from a page that was reclaimed for reuse
+export interface GlyphEvictionEvent<T> {
+    variantId: string;
+    genSize: number;
+    texture: T;           // texture that was cleared (and is being reused)
+    layer: number;        // cleared layer when texture is an array texture, else 0
+    codePoints: number[]; // glyphs that must be re-requested via getGlyph()
+}
+
+// Textures freed to save memory - glyphs must be re-requested via getGlyph()
+//   atlas - a whole variant atlas (all its pages) was destroyed
+//   page  - one mixed or large page was destroyed
+export interface AtlasEvictionEvent<T> {
+    variantId: string;
+    genSize: number;
+    scope: 'atlas' | 'page';
+    reason: 'budget' | 'idle' | 'trim';
+    textures: T[];        // destroyed textures (array textures are kept, only their layers freed)
+    codePoints: number[];
+}
+
+// A page texture was replaced - rebind anything holding oldTexture
+//   array-grow - array texture ran out of layers and was reallocated
+//   page-grow  - growable page doubled, UVs of its glyphs changed (pixel positions did not)
+export interface TextureReplacedEvent<T> {
+    oldTexture: T;
+    texture: T;
+    width: number;     // size of the new texture (per layer for arrays)
+    height: number;
+    reason: 'array-grow' | 'page-grow';
 }
 
 // Default config
@@ -71,28 +401,16 @@ export const DEFAULT_CONFIG: AtlasConfig = {
     genSizes: [32, 64, 128],
     sizeThresholds: [40, 80],
     pageSize: 1024,
+    maxTextureSize: 4096,
     maxMixedPages: 8,
     pixelRange: 4,
+    fieldType: 'mtsdf',
+    packing: 'shelf',
+    pageMode: 'texture',
+    primaryCharsets: ['latin'],
+    autoProcess: true,
+    maxRetries: 1,
 };
 
-// Latin character set (a-zA-Z0-9)
-const LATIN_RANGES: [number, number][] = [
-    [0x30, 0x39],  // 0-9
-    [0x41, 0x5A],  // A-Z
-    [0x61, 0x7A],  // a-z
-];
-
-export function isLatinChar(codePoint: number): boolean {
-    for (const [start, end] of LATIN_RANGES) {
-        if (codePoint >= start && codePoint <= end) return true;
-    }
-    return false;
-}
-
-// All Latin codepoints as array (62 chars: 0-9, A-Z, a-z)
-export const LATIN_CODEPOINTS: number[] = [];
-for (const [start, end] of LATIN_RANGES) {
-    for (let cp = start; cp <= end; cp++) {
-        LATIN_CODEPOINTS.push(cp);
-    }
-}
+// Latin helpers kept here for existing imports
+export { isLatinChar, LATIN_CODEPOINTS } from './Charsets.js';
@@ -9,6 +9,7 @@
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -63,11 +64,47 @@ const realTextureFactory = {
     }
 };
 
+// In-memory IDBFactory with just what IndexedDBStorage uses - requests complete on a later tick
+function fakeIndexedDB() {
+    const databases = new Map<string, Map<string, unknown>>();
+
+    const complete = (run: () => unknown) => {
+        const request: any = {};
+        setTimeout(() => {
+            request.result = run();
+            request.onsuccess?.();
+        });
+        return request;
+    };
+
+    return {
+        open(name: string) {
+            const request: any = {};
+            setTimeout(() => {
+                const store = () => databases.get(name)!;
+                request.result = {
+                    createObjectStore: () => databases.set(name, new Map()),
+                    transaction: () => ({
+                        objectStore: () => ({
+                            get: (key: string) => complete(() => store().get(key)),
+                            put: (value: unknown, key: string) => complete(() => store().set(key, value) && key),
+                            delete: (key: string) => complete(() => { store().delete(key); }),
+                        }),
+                    }),
+                };
+                if (!databases.has(name)) request.onupgradeneeded?.();
+                request.onsuccess?.();
+            });
+            return request;
+        },
+    };
+}
+
 async function main() {
     console.log('kitAtlas Integration Tests\\n');
 
     // Load kitAtlas module
-    const { FontAtlas, LATIN_CODEPOINTS } = await import(path.join(__dirname, 'kitAtlas.js'));
+    const { FontAtlas, AtlasGenerator, LATIN_CODEPOINTS, MemoryStorage, FileSystemStorage, IndexedDBStorage, encodeSnapshot, decodeSnapshot, HysteresisSizePolicy, NearestCachedSizePolicy } = await import(path.join(__dirname, 'kitAtlas.js'));
 
     // Load kitMSDF
     const { MSDFGenerator } = await import(path.join(__dirname, 'kitMSDF.js'));
@@ -76,6 +113,7 @@ async function main() {
     // Load font
     const fontPath = path.join(__dirname, 'assets/Poppins-Regular.ttf');
     const fontBytes = new Uint8Array(fs.readFileSync(fontPath));
+    const interBytes = new Uint8Array(fs.readFileSync(path.join(__dirname, 'assets/Inter-VariableFont_opsz,wght.ttf')));
 
     // Init MSDF
     const msdf = await MSDFGenerator.init(MSdfCoreFactory);
@@ -88,11 +126,12 @@ async function main() {
         const atlas = new FontAtlas(msdf, realTextureFactory, () => {
             callbackCalled = true;
         });
+        atlas.registerFont('poppins', fontBytes);
 
         const info = atlas.getGlyph({
             codePoint: 65, // 'A'
             variantId: 'test1',
-            fontBuffer: fontBytes,
+            fontId: 'poppins',
             renderSize: 32,
         });
 
@@ -109,11 +148,12 @@ async function main() {
         const atlas = new FontAtlas(msdf, realTextureFactory, () => {
             callbackCalled = true;
         });
+        atlas.registerFont('poppins', fontBytes);
 
         atlas.getGlyph({
             codePoint: 66, // 'B'
             variantId: 'test2',
-            fontBuffer: fontBytes,
+            fontId: 'poppins',
             renderSize: 32,
         });
 
@@ -125,11 +165,12 @@ async function main() {
 
     await runTest('after batch completes, getGlyph returns cached=true', async () => {
         const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
 
         atlas.getGlyph({
             codePoint: 67, // 'C'
             variantId: 'test3',
-            fontBuffer: fontBytes,
+            fontId: 'poppins',
             renderSize: 32,
         });
 
@@ -138,7 +179,7 @@ async function main() {
         const info = atlas.getGlyph({
             codePoint: 67,
             variantId: 'test3',
-            fontBuffer: fontBytes,
+            fontId: 'poppins',
             renderSize: 32,
         });
 
@@ -153,12 +194,13 @@ async function main() {
         const atlas = new FontAtlas(msdf, realTextureFactory, () => {
             callbackCount++;
         });
+        atlas.registerFont('poppins', fontBytes);
 
         for (let i = 0; i < 5; i++) {
             atlas.getGlyph({
                 codePoint: 68 + i,
                 variantId: 'test4',
-                fontBuffer: fontBytes,
+                fontId: 'poppins',
                 renderSize: 32,
             });
         }
@@ -172,14 +214,66 @@ async function main() {
         atlas.dispose();
     });
 
+    // ==================== FONT REGISTRY TESTS ====================
+    console.log('\\nFont Registry Tests:');
+
+    await runTest('batch loads each registered font once', async () => {
+        let loads = 0;
+        const countingMsdf = Object.create(msdf);
+        countingMsdf.loadFont = (bytes: Uint8Array) => {
+            loads++;
+            return msdf.loadFont(bytes);
+        };
+
+        const atlas = new FontAtlas(countingMsdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
+
+        for (let i = 0; i < 10; i++) {
+            atlas.getGlyph({
+                codePoint: 97 + i,
+                variantId: 'registry-test',
+                fontId: 'poppins',
+                renderSize: 32,
+            });
+        }
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        assert(loads === 1, `font should be loaded once per batch, got ${loads}`);
+
+        atlas.dispose();
+    });
+
+    await runTest('unregisterFont destroys its variant atlases', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
+
+        atlas.prefabLatin('unregister-test', 32, 'poppins');
+        assert(atlas.getStatus().atlasCount === 1, 'should have one atlas');
+
+        atlas.unregisterFont('poppins');
+        assert(!atlas.hasFont('poppins'), 'font should be gone');
+        assert(atlas.getStatus().atlasCount === 0, 'atlas should be destroyed');
+
+        let threw = false;
+        try {
+            atlas.getGlyph({ codePoint: 65, variantId: 'unregister-test', fontId: 'poppins', renderSize: 32 });
+        } catch {
+            threw = true;
+        }
+        assert(threw, 'getGlyph with unregistered font should throw');
+
+        atlas.dispose();
+    });
+
     // ==================== PREFAB TESTS ====================
     console.log('\\nPrefab Tests:');
 
     await runTest('prefabLatin generates all 62 Latin chars synchronously', async () => {
         const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
 
         const startTime = Date.now();
-        atlas.prefabLatin('prefab1', 32, fontBytes);
+        atlas.prefabLatin('prefab1', 32, 'poppins');
         const elapsed = Date.now() - startTime;
         console.log(`        (prefabLatin took ${elapsed}ms)`);
 
@@ -187,7 +281,7 @@ async function main() {
             const info = atlas.getGlyph({
                 codePoint: cp,
                 variantId: 'prefab1',
-                fontBuffer: fontBytes,
+                fontId: 'poppins',
                 renderSize: 32,
             });
             assert(info.cached, `char ${cp} should be cached`);
@@ -199,18 +293,66 @@ async function main() {
         atlas.dispose();
     });
 
+    await runTest('prefabCharset sizes the primary page to hold the whole charset', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {}, {
+            pageSize: 256,
+            primaryCharsets: ['latin1'],
+        });
+        atlas.registerFont('poppins', fontBytes);
+
+        atlas.prefabCharset('prefab-latin1', 64, 'poppins');
+
+        const status = atlas.getStatus();
+        assert(status.glyphCount === 191, `should have 191 glyphs, got ${status.glyphCount}`);
+        assert(status.pageCount === 1, `primary charset should fit one page, got ${status.pageCount}`);
+
+        const info = atlas.getGlyph({
+            codePoint: 0xE9, // 'é'
+            variantId: 'prefab-latin1',
+            fontId: 'poppins',
+            renderSize: 64,
+        });
+        assert(info.cached, 'Latin-1 glyph should be cached after prefab');
+
+        atlas.dispose();
+    });
+
+    await runTest('primary page stops at maxTextureSize and the rest spills onto mixed pages', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {}, {
+            pageSize: 512,
+            maxTextureSize: 512,
+            primaryCharsets: ['latin1'],
+        });
+        atlas.registerFont('poppins', fontBytes);
+
+        atlas.prefabCharset('prefab-capped', 64, 'poppins');
+
+        const status = atlas.getStatus();
+        assert(status.glyphCount === 191, `should have 191 glyphs, got ${status.glyphCount}`);
+        assert(status.pageCount > 1, `overflow should spill onto mixed pages, got ${status.pageCount} page(s)`);
+
+        for (let codePoint = 0xA1; codePoint <= 0xFF; codePoint++) {
+            const info = atlas.getGlyph({ codePoint, variantId: 'prefab-capped', fontId: 'poppins', renderSize: 64 });
+            assert(info.cached, `U+${codePoint.toString(16)} should be cached after prefab`);
+            assert(info.texture.width <= 512, `texture should not exceed maxTextureSize, got ${info.texture.width}`);
+        }
+
+        atlas.dispose();
+    });
+
     await runTest('after prefabLatin, getGlyph returns with no pending work', async () => {
         let callbackCount = 0;
         const atlas = new FontAtlas(msdf, realTextureFactory, () => {
             callbackCount++;
         });
+        atlas.registerFont('poppins', fontBytes);
 
-        atlas.prefabLatin('prefab2', 32, fontBytes);
+        atlas.prefabLatin('prefab2', 32, 'poppins');
 
         const info = atlas.getGlyph({
             codePoint: 97, // 'a'
             variantId: 'prefab2',
-            fontBuffer: fontBytes,
+            fontId: 'poppins',
             renderSize: 32,
         });
 
@@ -228,13 +370,14 @@ async function main() {
 
     await runTest('texture contains actual pixel data after generation', async () => {
         const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
 
-        atlas.prefabLatin('textest', 64, fontBytes);
+        atlas.prefabLatin('textest', 64, 'poppins');
 
         const info = atlas.getGlyph({
             codePoint: 65,
             variantId: 'textest',
-            fontBuffer: fontBytes,
+            fontId: 'poppins',
             renderSize: 64,
         });
 
@@ -253,13 +396,14 @@ async function main() {
 
     await runTest('UVs are valid after generation', async () => {
         const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
 
-        atlas.prefabLatin('uvtest', 32, fontBytes);
+        atlas.prefabLatin('uvtest', 32, 'poppins');
 
         const info = atlas.getGlyph({
             codePoint: 88,
             variantId: 'uvtest',
-            fontBuffer: fontBytes,
+            fontId: 'poppins',
             renderSize: 32,
         });
 
@@ -278,11 +422,12 @@ async function main() {
 
     await runTest('missing glyph returns empty=true, missing=true', async () => {
         const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
 
         atlas.getGlyph({
             codePoint: 0x1F600,
             variantId: 'missing-test',
-            fontBuffer: fontBytes,
+            fontId: 'poppins',
             renderSize: 32,
         });
 
@@ -291,7 +436,7 @@ async function main() {
         const info = atlas.getGlyph({
             codePoint: 0x1F600,
             variantId: 'missing-test',
-            fontBuffer: fontBytes,
+            fontId: 'poppins',
             renderSize: 32,
         });
 
@@ -304,13 +449,14 @@ async function main() {
 
     await runTest('existing glyph returns empty=false, missing=false', async () => {
         const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
 
-        atlas.prefabLatin('exists-test', 32, fontBytes);
+        atlas.prefabLatin('exists-test', 32, 'poppins');
 
         const info = atlas.getGlyph({
             codePoint: 65,
             variantId: 'exists-test',
-            fontBuffer: fontBytes,
+            fontId: 'poppins',
             renderSize: 32,
         });
 
@@ -322,6 +468,1258 @@ async function main() {
         atlas.dispose();
     });
 
+    // ==================== QUEUE TESTS ====================
+    console.log('\\nQueue Tests:');
+
+    await runTest('pump generates highest priority first within budget', async () => {
+        let readyCount = 0;
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => { readyCount++; }, { autoProcess: false });
+        atlas.registerFont('poppins', fontBytes);
+
+        const request = { variantId: 'pump-test', fontId: 'poppins', renderSize: 32 };
+        atlas.getGlyph({ ...request, codePoint: 65, priority: -1 });   // prefetch
+        atlas.getGlyph({ ...request, codePoint: 66 });
+        atlas.getGlyph({ ...request, codePoint: 67, priority: 1 });    // visible
+        atlas.getGlyph({ ...request, codePoint: 66 });                 // duplicate, not queued twice
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        assert(atlas.pendingCount === 3, `nothing should run without pump, got ${atlas.pendingCount} pending`);
+
+        assert(atlas.pump(0) === 1, 'zero budget should still generate one glyph');
+        assert(atlas.getGlyph({ ...request, codePoint: 67 }).cached, 'highest priority glyph should be first');
+        assert(!atlas.getGlyph({ ...request, codePoint: 65 }).cached, 'prefetch glyph should still be pending');
+        assert(readyCount === 1, 'pump should notify');
+
+        assert(atlas.pump() === 2, 'unbounded pump should drain the queue');
+        assert(!atlas.hasPendingWork && atlas.pendingCount === 0, 'no work should remain');
+
+        atlas.dispose();
+    });
+
+    await runTest('frameBudgetMs spreads generation over several runs', async () => {
+        let readyCount = 0;
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => { readyCount++; }, { frameBudgetMs: 0 });
+        atlas.registerFont('poppins', fontBytes);
+
+        for (const codePoint of [0x41, 0x42, 0x43]) {
+            atlas.getGlyph({ codePoint, variantId: 'budget-test', fontId: 'poppins', renderSize: 32 });
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 200));
+        assert(readyCount === 3, `each run should generate one glyph, got ${readyCount} runs`);
+        assert(!atlas.hasPendingWork, 'queue should drain');
+
+        atlas.dispose();
+    });
+
+    // ==================== READY EVENT TESTS ====================
+    console.log('\\nReady Event Tests:');
+
+    await runTest('onGlyphsReady reports completed glyphs and updated textures', async () => {
+        const events: any[] = [];
+        const atlas = new FontAtlas(msdf, realTextureFactory, (event: any) => { events.push(event); });
+        atlas.registerFont('poppins', fontBytes);
+
+        const request = { variantId: 'event-test', fontId: 'poppins', renderSize: 32 };
+        atlas.getGlyph({ ...request, codePoint: 0x4E2D });   // not in Poppins
+        atlas.getGlyph({ ...request, codePoint: 0x20 });
+        atlas.getGlyph({ ...request, codePoint: 0x41 });
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        assert(events.length === 1, `expected one event, got ${events.length}`);
+
+        const { glyphs, textures } = events[0];
+        const byCode = new Map(glyphs.map((glyph: any) => [glyph.codePoint, glyph]));
+        assert(glyphs.length === 3, `expected 3 glyphs, got ${glyphs.length}`);
+        assert((byCode.get(0x4E2D) as any).missing, 'CJK glyph should be reported missing');
+        assert((byCode.get(0x20) as any).empty && !(byCode.get(0x20) as any).missing, 'space should be empty, not missing');
+        assert((byCode.get(0x41) as any).variantId === 'event-test' && (byCode.get(0x41) as any).genSize === 32, 'glyph should carry variant and genSize');
+        const uploaded = atlas.getGlyph({ ...request, codePoint: 0x41 });
+        assert(uploaded.cached && textures.has(uploaded.texture), 'page texture of the generated glyph should be listed as updated');
+
+        atlas.dispose();
+    });
+
+    await runTest('whenReady resolves with cached glyph info', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory);
+        atlas.registerFont('poppins', fontBytes);
+
+        const request = { variantId: 'when-test', fontId: 'poppins', renderSize: 32 };
+        const infos = await atlas.whenReady([{ ...request, codePoint: 0x42 }, { ...request, codePoint: 0x43 }]);
+        assert(infos.length === 2 && infos.every((info: any) => info.cached), 'all glyphs should be cached');
+        assert(infos[0].metrics.width > 0, 'metrics should be real, not placeholder');
+
+        // Already cached - resolves without generating
+        const single = await atlas.whenReady({ ...request, codePoint: 0x42 });
+        assert(single.cached, 'single request should resolve with its info');
+
+        atlas.dispose();
+    });
+
+    await runTest('whenReady waits for pump in manual mode and rejects on dispose', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { autoProcess: false });
+        atlas.registerFont('poppins', fontBytes);
+
+        const request = { variantId: 'manual-ready', fontId: 'poppins', renderSize: 32 };
+        let resolved = false;
+        const ready = atlas.whenReady({ ...request, codePoint: 0x44 }).then(() => { resolved = true; });
+
+        await new Promise(resolve => setTimeout(resolve, 20));
+        assert(!resolved, 'should not resolve before pump');
+        atlas.pump();
+        await ready;
+        assert(resolved, 'should resolve after pump');
+
+        let rejected = false;
+        const pending = atlas.whenReady({ ...request, codePoint: 0x45 }).catch(() => { rejected = true; });
+        atlas.dispose();
+        await pending;
+        assert(rejected, 'dispose should reject waiting promises');
+    });
+
+    await runTest('whenReady rejects a set that does not fit the mixed pages at once', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {}, { pageSize: 128, maxMixedPages: 1 });
+        atlas.registerFont('poppins', fontBytes);
+
+        // Re-queuing evicted glyphs used to spin in microtasks - timers never ran
+        let timerFired = false;
+        setTimeout(() => { timerFired = true; }, 50);
+
+        const requests = [];
+        for (let codePoint = 0x120; codePoint < 0x140; codePoint++) {
+            requests.push({ codePoint, variantId: 'too-many', fontId: 'poppins', renderSize: 32 });
+        }
+        let error = '';
+        await atlas.whenReady(requests).catch((e: any) => { error = e.message; });
+        assert(error.includes('maxMixedPages'), `whenReady should reject, got "${error}"`);
+
+        await new Promise(resolve => setTimeout(resolve, 100));
+        assert(timerFired, 'event loop should keep running');
+
+        atlas.dispose();
+    });
+
+    // ==================== ERROR HANDLING TESTS ====================
+    console.log('\\nError Handling Tests:');
+
+    // Generator that throws for one codepoint and delegates everything else
+    function createFlakyMsdf(badCodePoint: number, failures: number): any {
+        let remaining = failures;
+        return new Proxy(msdf, {
+            get(target: any, prop: string | symbol) {
+                if (prop === 'generateMTSDF') {
+                    return (codePoint: number, fontSize: number, pixelRange: number) => {
+                        if (codePoint === badCodePoint && remaining-- > 0) {
+                            throw new Error('generator failure');
+                        }
+                        return target.generateMTSDF(codePoint, fontSize, pixelRange);
+                    };
+                }
+                const value = target[prop];
+                return typeof value === 'function' ? value.bind(target) : value;
+            },
+        });
+    }
+
+    await runTest('failing glyph is isolated, reported and marked failed', async () => {
+        const errors: any[] = [];
+        const atlas = new FontAtlas(createFlakyMsdf(0x42, Infinity), realTextureFactory, undefined, { maxRetries: 1 });
+        atlas.onError = (event: any) => { errors.push(event); };
+        atlas.registerFont('poppins', fontBytes);
+
+        const request = { variantId: 'error-test', fontId: 'poppins', renderSize: 32 };
+        const [a, b, c] = await atlas.whenReady([0x41, 0x42, 0x43].map(codePoint => ({ ...request, codePoint })));
+
+        assert(a.cached && !a.failed && c.cached && !c.failed, 'other glyphs of the batch should generate');
+        assert(b.cached && b.failed && b.empty, 'failing glyph should be marked failed');
+        assert(b.metrics.advance > 0, 'failed glyph should keep its advance');
+        assert(errors.length === 2, `expected first attempt + one retry, got ${errors.length} errors`);
+        assert(errors[0].codePoint === 0x42 && errors[0].variantId === 'error-test', 'error should name the glyph');
+        assert(errors[0].willRetry && !errors[1].willRetry, 'only the last attempt gives up');
+        assert(errors[1].error instanceof Error, 'error should carry the cause');
+        assert(!atlas.hasPendingWork, 'nothing should stay pending');
+
+        atlas.dispose();
+    });
+
+    await runTest('transient failure succeeds on retry', async () => {
+        const atlas = new FontAtlas(createFlakyMsdf(0x42, 1), realTextureFactory, undefined, { maxRetries: 2 });
+        atlas.registerFont('poppins', fontBytes);
+
+        const info = await atlas.whenReady({ codePoint: 0x42, variantId: 'retry-test', fontId: 'poppins', renderSize: 32 });
+        assert(info.cached && !info.failed && !info.empty, 'retry should produce the glyph');
+
+        atlas.dispose();
+    });
+
+    await runTest('glyph larger than a page gets its own page', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { pageSize: 64, genSizes: [128], sizeThresholds: [] });
+        atlas.registerFont('poppins', fontBytes);
+
+        const info = await atlas.whenReady({ codePoint: 0xC0, variantId: 'large-test', fontId: 'poppins', renderSize: 128 });
+        assert(info.cached && !info.failed, 'large glyph should be placed, not fail');
+        assert(info.metrics.width > 64, `glyph should be wider than the page, got ${info.metrics.width}`);
+        assert(info.uvs.u1 <= 1 && info.uvs.v1 <= 1, 'UVs should stay inside the large page');
+
+        atlas.dispose();
+    });
+
+    // ==================== MEMORY BUDGET TESTS ====================
+    console.log('\\nMemory Budget Tests:');
+
+    await runTest('maxMemoryBytes evicts least recently used variant atlas', async () => {
+        const pageBytes = 256 * 256 * 4;
+        const evictions: any[] = [];
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { pageSize: 256, maxMemoryBytes: 2 * pageBytes });
+        atlas.onAtlasEvicted = (event: any) => { evictions.push(event); };
+        atlas.registerFont('poppins', fontBytes);
+
+        // Back to back, usually within one millisecond
+        for (const variantId of ['first', 'second', 'third', 'fourth']) {
+            await atlas.whenReady({ codePoint: 0xC1, variantId, fontId: 'poppins', renderSize: 32 });
+        }
+
+        assert(evictions.length === 2, `expected two evictions, got ${evictions.length}`);
+        assert(evictions[0].variantId === 'first' && evictions[1].variantId === 'second', 'oldest variants should go in order');
+        assert(evictions.every((event: any) => event.scope === 'atlas' && event.reason === 'budget'), 'whole atlases should go for the budget');
+        assert(atlas.getStatus().atlasCount === 2, 'two atlases should remain');
+        assert(atlas.getGlyph({ codePoint: 0xC1, variantId: 'fourth', fontId: 'poppins', renderSize: 32 }).cached, 'newest glyph kept');
+
+        atlas.dispose();
+    });
+
+    await runTest('maxMemoryBytes spares atlases a whenReady() batch spans', async () => {
+        const pageBytes = 256 * 256 * 4;
+        const evictions: any[] = [];
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { pageSize: 256, maxMemoryBytes: pageBytes });
+        atlas.onAtlasEvicted = (event: any) => { evictions.push(event); };
+        atlas.registerFont('poppins', fontBytes);
+
+        // Together over budget - each flush used to evict the other variant and re-queue it forever
+        const infos = await atlas.whenReady(['left', 'right'].map(variantId => ({ codePoint: 0x41, variantId, fontId: 'poppins', renderSize: 32 })));
+
+        assert(infos.every((info: any) => info.cached), 'both glyphs should be ready');
+        assert(evictions.length === 0, `nothing the batch wrote should be evicted, got ${evictions.length}`);
+        assert(atlas.getStatus().atlasCount === 2, 'both atlases should remain until the next batch');
+
+        atlas.dispose();
+    });
+
+    await runTest('idleTimeoutMs frees unused atlases and trim() frees the rest', async () => {
+        const evictions: any[] = [];
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { pageSize: 256, idleTimeoutMs: 20 });
+        atlas.onAtlasEvicted = (event: any) => { evictions.push(event); };
+        atlas.registerFont('poppins', fontBytes);
+
+        await atlas.whenReady({ codePoint: 0x41, variantId: 'idle', fontId: 'poppins', renderSize: 32 });
+        await new Promise(resolve => setTimeout(resolve, 40));
+        await atlas.whenReady({ codePoint: 0x41, variantId: 'busy', fontId: 'poppins', renderSize: 32 });
+
+        assert(evictions.length === 1 && evictions[0].variantId === 'idle', 'idle atlas should be freed');
+        assert(evictions[0].reason === 'idle', 'reason should be idle');
+
+        const freed = atlas.trim();
+        assert(freed > 0, 'trim should free memory');
+        assert(atlas.getStatus().memoryBytes === 0, 'nothing should remain after trim()');
+        assert(evictions[1].reason === 'trim', 'reason should be trim');
+
+        atlas.dispose();
+    });
+
+    // ==================== SNAPSHOT TESTS ====================
+    console.log('\\nSnapshot Tests:');
+
+    await runTest('saveTo/loadFrom restores glyphs without regenerating', async () => {
+        const storage = new MemoryStorage();
+        const request = { variantId: 'snapshot', fontId: 'poppins', renderSize: 32 };
+        const codePoints = [0x41, 0x20, 0x416, 0xC0];
+
+        const source = new FontAtlas(msdf, realTextureFactory, undefined, { packing: 'skyline' });
+        source.registerFont('poppins', fontBytes);
+        const before = await source.whenReady(codePoints.map(codePoint => ({ ...request, codePoint })));
+        await source.saveTo(storage);
+
+        let readyCount = 0;
+        const restored = new FontAtlas(msdf, realTextureFactory, () => { readyCount++; }, { packing: 'skyline' });
+        restored.registerFont('poppins', fontBytes);
+        assert(await restored.loadFrom(storage), 'snapshot should load');
+
+        const after = codePoints.map(codePoint => restored.getGlyph({ ...request, codePoint }));
+        assert(after.every((info: any) => info.cached), 'restored glyphs should be cached');
+        assert(!restored.hasPendingWork, 'nothing should be queued');
+        assert(after[1].empty && after[2].missing, 'empty and missing flags should survive');
+        assert(JSON.stringify(after.map((info: any) => info.uvs)) === JSON.stringify(before.map((info: any) => info.uvs)), 'UVs should match');
+        assert(after[0].metrics.advance === before[0].metrics.advance, 'metrics should match');
+
+        // Restored texture was created with the saved pixels
+        const texture = after[0].texture as RealTexture;
+        assert(texture.buffer.some((byte: number) => byte !== 0), 'restored texture should have pixels');
+
+        // Packer state restored - the next glyph lands where it would have in the source
+        const next = { ...request, codePoint: 0xC1 };
+        const [fromSource, fromRestored] = [await source.whenReady(next), await restored.whenReady(next)];
+        assert(JSON.stringify(fromSource.uvs) === JSON.stringify(fromRestored.uvs), 'next glyph should not overlap restored ones');
+        assert(readyCount === 1, 'restore itself should not fire onGlyphsReady');
+
+        source.dispose();
+        restored.dispose();
+    });
+
+    await runTest('saveTo/loadFrom round-trips through IndexedDBStorage', async () => {
+        const storage = new IndexedDBStorage('kitatlas-test', fakeIndexedDB());
+        const request = { codePoint: 0x41, variantId: 'snapshot', fontId: 'poppins', renderSize: 32 };
+
+        const source = new FontAtlas(msdf, realTextureFactory);
+        source.registerFont('poppins', fontBytes);
+        const before = await source.whenReady(request);
+        await source.saveTo(storage);
+
+        const restored = new FontAtlas(msdf, realTextureFactory);
+        restored.registerFont('poppins', fontBytes);
+        assert(await restored.loadFrom(storage), 'snapshot should load');
+        const after = restored.getGlyph(request);
+        assert(after.cached && JSON.stringify(after.uvs) === JSON.stringify(before.uvs), 'restored glyph should match');
+
+        await storage.delete('font-atlas');
+        assert(await storage.load('font-atlas') === null, 'deleted snapshot should be gone');
+
+        source.dispose();
+        restored.dispose();
+    });
+
+    await runTest('saveTo/loadFrom round-trips through FileSystemStorage', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'kitatlas-'));
+        try {
+            const storage = new FileSystemStorage(path.join(directory, 'cache'));
+            const request = { codePoint: 0x41, variantId: 'snapshot', fontId: 'poppins', renderSize: 32 };
+            assert(await storage.load('font-atlas') === null, 'nothing should be stored before the first save');
+
+            const source = new FontAtlas(msdf, realTextureFactory);
+            source.registerFont('poppins', fontBytes);
+            const before = await source.whenReady(request);
+            await source.saveTo(storage);
+            assert(fs.readdirSync(path.join(directory, 'cache')).length === 1, 'one file should be written, no temp file left');
+
+            const restored = new FontAtlas(msdf, realTextureFactory);
+            restored.registerFont('poppins', fontBytes);
+            assert(await restored.loadFrom(storage), 'snapshot should load');
+            const after = restored.getGlyph(request);
+            assert(after.cached && JSON.stringify(after.uvs) === JSON.stringify(before.uvs), 'restored glyph should match');
+
+            await storage.delete('font-atlas');
+            assert(await storage.load('font-atlas') === null, 'deleted snapshot should be gone');
+
+            source.dispose();
+            restored.dispose();
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    await runTest('snapshot with other font bytes or config is refused', async () => {
+        const source = new FontAtlas(msdf, realTextureFactory);
+        source.registerFont('poppins', fontBytes);
+        await source.whenReady({ codePoint: 0x41, variantId: 'snapshot', fontId: 'poppins', renderSize: 32 });
+        const snapshot = decodeSnapshot(encodeSnapshot(source.serialize()));
+        const storage = new MemoryStorage();
+        await source.saveTo(storage, 'cache');
+
+        const otherFont = new FontAtlas(msdf, realTextureFactory);
+        otherFont.registerFont('poppins', interBytes);
+        assert(!(await otherFont.loadFrom(storage, 'cache')), 'loadFrom should report a stale cache');
+
+        let error = '';
+        try {
+            otherFont.restore(snapshot);
+        } catch (e: any) {
+            error = e.message;
+        }
+        assert(error.includes("font 'poppins'"), `restore should name the font, got "${error}"`);
+
+        const otherConfig = new FontAtlas(msdf, realTextureFactory, undefined, { pixelRange: 8 });
+        otherConfig.registerFont('poppins', fontBytes);
+        assert(!(await otherConfig.loadFrom(storage, 'cache')), 'different pixelRange should be refused');
+        assert(otherConfig.getStatus().glyphCount === 0, 'refused snapshot should change nothing');
+
+        source.dispose();
+        otherFont.dispose();
+        otherConfig.dispose();
+    });
+
+    await runTest('loadFrom reports an old snapshot version or corrupt data as stale', async () => {
+        const source = new FontAtlas(msdf, realTextureFactory);
+        source.registerFont('poppins', fontBytes);
+        await source.whenReady({ codePoint: 0x41, variantId: 'snapshot', fontId: 'poppins', renderSize: 32 });
+        const bytes = encodeSnapshot(source.serialize());
+
+        const oldVersion = bytes.slice();
+        new DataView(oldVersion.buffer).setUint32(4, 1, true);
+        const storage = new MemoryStorage();
+        await storage.save('old', oldVersion);
+        await storage.save('truncated', bytes.subarray(0, bytes.length - 16));
+
+        const atlas = new FontAtlas(msdf, realTextureFactory);
+        atlas.registerFont('poppins', fontBytes);
+        assert(!(await atlas.loadFrom(storage, 'old')), 'version 1 snapshot should be refused');
+        assert(!(await atlas.loadFrom(storage, 'truncated')), 'truncated snapshot should be refused');
+        assert(atlas.getStatus().glyphCount === 0, 'refused snapshot should change nothing');
+
+        source.dispose();
+        atlas.dispose();
+    });
+
+    await runTest('corrupt snapshot pages are refused before the current variant is replaced', async () => {
+        const request = { codePoint: 0x41, variantId: 'snapshot', fontId: 'poppins', renderSize: 32 };
+        const source = new FontAtlas(msdf, realTextureFactory);
+        source.registerFont('poppins', fontBytes);
+        await source.whenReady(request);
+
+        const badWidth = source.serialize();
+        badWidth.variants[0].pages[0].width *= 2;
+        const storage = new MemoryStorage();
+        await storage.save('bad-width', encodeSnapshot(badWidth));
+
+        const atlas = new FontAtlas(msdf, realTextureFactory);
+        atlas.registerFont('poppins', fontBytes);
+        const before = await atlas.whenReady({ ...request, codePoint: 0x42 });
+        assert(!(await atlas.loadFrom(storage, 'bad-width')), 'page with the wrong byte count should be refused');
+
+        const after = atlas.getGlyph({ ...request, codePoint: 0x42 });
+        assert(after.cached && after.texture === before.texture, 'existing glyph and texture should be untouched');
+        assert(!atlas.getGlyph(request).cached, 'nothing from the snapshot should be restored');
+
+        const badPage = source.serialize();
+        badPage.variants[0].glyphs[0].page = 5;
+        let error = '';
+        try {
+            atlas.restore(badPage);
+        } catch (e: any) {
+            error = e.message;
+        }
+        assert(error.includes('missing page 5'), `restore should name the bad page, got "${error}"`);
+        assert(atlas.getGlyph({ ...request, codePoint: 0x42 }).cached, 'refused restore should change nothing');
+
+        source.dispose();
+        atlas.dispose();
+    });
+
+    // ==================== SHEET IMPORT TESTS ====================
+    console.log('\\nSheet Import Tests:');
+
+    await runTest('importSheet seeds a variant from an AtlasGenerator sheet', async () => {
+        const sheet = await new AtlasGenerator(msdf).generate(fontBytes, [0x41, 0x67, 0xC0], 32, 2, 256, 'mtsdf');
+
+        let readyCount = 0;
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => { readyCount++; });
+        atlas.registerFont('poppins', fontBytes);
+        assert(atlas.importSheet(sheet, 'sheet', 'poppins') === 3, 'all sheet chars should be imported');
+
+        const request = { variantId: 'sheet', fontId: 'poppins', renderSize: 32 };
+        const imported = [0x41, 0x67, 0xC0].map(codePoint => atlas.getGlyph({ ...request, codePoint }));
+        assert(imported.every((info: any) => info.cached && !info.empty), 'sheet glyphs should be cached immediately');
+        assert(!atlas.hasPendingWork, 'nothing should be queued for sheet glyphs');
+
+        // Same metrics as generating the glyph at runtime
+        const generated = new FontAtlas(msdf, realTextureFactory);
+        generated.registerFont('poppins', fontBytes);
+        const reference = await generated.whenReady({ ...request, codePoint: 0x67 });
+        const { metrics } = imported[1];
+        assert(metrics.width === reference.metrics.width && metrics.height === reference.metrics.height, 'size should match');
+        assert(Math.abs(metrics.advance - reference.metrics.advance) < 1e-3, 'advance should match');
+        assert(Math.abs(metrics.planeBounds.l - reference.metrics.planeBounds.l) < 1e-3, 'left bearing should match');
+        assert(Math.abs(metrics.planeBounds.t - reference.metrics.planeBounds.t) < 1e-3, 'top should match');
+
+        // Chars the sheet lacks are generated on demand
+        const missing = await atlas.whenReady({ ...request, codePoint: 0x42 });
+        assert(missing.cached && readyCount === 1, 'glyph not in the sheet should generate as usual');
+
+        atlas.dispose();
+        generated.dispose();
+    });
+
+    await runTest('importSheet rejects a sheet at a size not in genSizes', () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory);
+        atlas.registerFont('poppins', fontBytes);
+
+        let error = '';
+        try {
+            atlas.importSheet({ image: new Uint8Array(0), width: 0, height: 0, json: { chars: [], info: { size: 48 }, common: { base: 0 } } }, 'sheet', 'poppins');
+        } catch (e: any) {
+            error = e.message;
+        }
+        assert(error.includes('genSizes'), `expected a genSizes error, got "${error}"`);
+
+        atlas.dispose();
+    });
+
+    await runTest('importSheet rejects a sheet of another fieldType', () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory);
+        atlas.registerFont('poppins', fontBytes);
+        atlas.setVariantOptions('sheet', { fieldType: 'mtsdf', pixelRange: 4 });
+
+        const json = { chars: [], info: { size: 32 }, common: { base: 0 }, distanceField: { fieldType: 'msdf', distanceRange: 4 } };
+        let error = '';
+        try {
+            atlas.importSheet({ image: new Uint8Array(0), width: 0, height: 0, json }, 'sheet', 'poppins');
+        } catch (e: any) {
+            error = e.message;
+        }
+        assert(error.includes("fieldType 'msdf'"), `expected a fieldType error, got "${error}"`);
+
+        atlas.dispose();
+    });
+
+    // ==================== VARIANT IDENTITY TESTS ====================
+    console.log('\\nVariant Identity Tests:');
+
+    await runTest('derived variant ids follow font bytes and axes, not fontId', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory);
+        atlas.registerFont('inter', interBytes);
+        atlas.registerFont('inter-copy', interBytes);
+
+        const regular = atlas.getVariantId('inter');
+        assert(regular.startsWith('auto:'), `unexpected id "${regular}"`);
+        assert(atlas.getVariantId('inter-copy') === regular, 'same bytes should share a variant');
+        assert(atlas.getVariantId('inter', [{ tag: 'wght', value: 400 }]) === regular, 'default axis values should not change the id');
+        assert(atlas.getVariantId('inter', [{ tag: 'wght', value: 700 }]) !== regular, 'other axis values should change the id');
+
+        // Requests without a variantId land in the shared atlas
+        await atlas.whenReady({ codePoint: 0x41, fontId: 'inter', renderSize: 32 });
+        const copy = atlas.getGlyph({ codePoint: 0x41, fontId: 'inter-copy', renderSize: 32 });
+        assert(copy.cached, 'glyph should be served from the atlas of the identical font');
+
+        atlas.dispose();
+    });
+
+    await runTest('onVariantMismatch reports an explicit id reused with other axes', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory);
+        atlas.registerFont('inter', interBytes);
+
+        const events: any[] = [];
+        atlas.onVariantMismatch = (event: any) => events.push(event);
+
+        const request = { codePoint: 0x41, variantId: 'body', fontId: 'inter', renderSize: 32 };
+        atlas.getGlyph(request);
+        atlas.getGlyph({ ...request, variationAxes: [{ tag: 'wght', value: 400 }] });
+        assert(events.length === 0, 'equivalent axes should not be reported');
+
+        const bold = { ...request, codePoint: 0x42, variationAxes: [{ tag: 'wght', value: 700 }] };
+        atlas.getGlyph(bold);
+        atlas.getGlyph(request);
+        atlas.getGlyph(bold);
+        assert(events.length === 1, `mismatch should be reported once, got ${events.length}`);
+        assert(events[0].variantId === 'body' && events[0].expected.variationAxes === undefined, 'expected should be the first use');
+        assert(events[0].received.variationAxes[0].value === 700, 'received should be the mismatching axes');
+
+        atlas.dispose();
+    });
+
+    // ==================== AXIS QUANTIZATION TESTS ====================
+    console.log('\\nAxis Quantization Tests:');
+
+    await runTest('axisQuantization snaps animated axes to shared instances', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { axisQuantization: { wght: 100, opsz: [14, 32] } });
+        atlas.registerFont('inter', interBytes);
+
+        const request = (wght: number) => ({ codePoint: 0x41, fontId: 'inter', renderSize: 32, variationAxes: [{ tag: 'wght', value: wght }, { tag: 'opsz', value: 20 }] });
+        const first = await atlas.whenReady(request(430));
+        assert(first.variationAxes[0].value === 400 && first.variationAxes[1].value === 14, `unexpected snapped axes ${JSON.stringify(first.variationAxes)}`);
+
+        for (const wght of [410, 420, 449]) {
+            assert(atlas.getGlyph(request(wght)).cached, `wght ${wght} should reuse the 400 instance`);
+        }
+        assert(!atlas.getGlyph(request(460)).cached, 'wght 460 should snap to a new instance');
+        assert(atlas.getStatus().atlasCount === 2, `expected 2 atlases, got ${atlas.getStatus().atlasCount}`);
+
+        atlas.dispose();
+    });
+
+    await runTest('blend returns both nearest instances and a weight', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { axisQuantization: { wght: [100, 400, 900] } });
+        atlas.registerFont('inter', interBytes);
+
+        const request = { codePoint: 0x41, fontId: 'inter', renderSize: 32, blend: true, variationAxes: [{ tag: 'wght', value: 650 }] };
+        const info = await atlas.whenReady(request);
+        assert(info.cached && info.blend?.to.cached, 'both instances should be ready');
+        assert(info.variationAxes[0].value === 400 && info.blend.to.variationAxes[0].value === 900, 'should bracket the value');
+        assert(Math.abs(info.blend.weight - 0.5) < 1e-9, `expected weight 0.5, got ${info.blend.weight}`);
+        assert(info.blend.to.uvs.u0 !== info.uvs.u0 || info.blend.to.texture !== info.texture, 'instances should be separate glyphs');
+
+        const exact = atlas.getGlyph({ ...request, variationAxes: [{ tag: 'wght', value: 400 }] });
+        assert(exact.cached && !exact.blend, 'a value on an instance should not blend');
+
+        let error = '';
+        try {
+            atlas.getGlyph({ ...request, variantId: 'body' });
+        } catch (e: any) {
+            error = e.message;
+        }
+        assert(error.includes('variantId'), `expected a variantId error, got "${error}"`);
+
+        atlas.dispose();
+    });
+
+    await runTest('fractional quantization steps snap without float error', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { axisQuantization: { opsz: 0.1 } });
+        atlas.registerFont('inter', interBytes);
+
+        const request = (opsz: number) => ({ codePoint: 0x41, fontId: 'inter', renderSize: 32, blend: true, variationAxes: [{ tag: 'opsz', value: opsz }] });
+        const onGrid = await atlas.whenReady(request(14.3));
+        assert(!onGrid.blend, 'a value on the grid should not blend');
+        assert(onGrid.variationAxes[0].value === 14.3, `expected opsz 14.3, got ${onGrid.variationAxes[0].value}`);
+
+        const between = await atlas.whenReady(request(14.35));
+        assert(between.variationAxes[0].value === 14.3 && between.blend?.to.variationAxes[0].value === 14.4, 'should bracket with clean grid values');
+
+        atlas.dispose();
+    });
+
+    // ==================== GEN SIZE POLICY TESTS ====================
+    console.log('\\nGen Size Policy Tests:');
+
+    await runTest('config rejects genSizes and sizeThresholds that do not line up', () => {
+        const configs = [
+            { genSizes: [32, 64] },
+            { genSizes: [64, 32], sizeThresholds: [40] },
+            { sizeThresholds: [80, 40] },
+            { genSizes: [], sizeThresholds: [] },
+        ];
+        for (const config of configs) {
+            let error = '';
+            try {
+                new FontAtlas(msdf, realTextureFactory, undefined, config);
+            } catch (e: any) {
+                error = e.message;
+            }
+            assert(error.includes('config.'), `${JSON.stringify(config)} should be rejected`);
+        }
+    });
+
+    await runTest('HysteresisSizePolicy holds the genSize near a threshold', () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { genSizePolicy: new HysteresisSizePolicy(0.1) });
+        atlas.registerFont('poppins', fontBytes);
+
+        // Threshold 40: switch up above 44, back down at 36.4 or below
+        const sizes = [38, 41, 43, 45, 39, 37, 36].map(renderSize =>
+            atlas.getGlyph({ codePoint: 0x41, variantId: 'zoom', fontId: 'poppins', renderSize }).genSize);
+        assert(sizes.join() === '32,32,32,64,64,64,32', `unexpected genSizes ${sizes.join()}`);
+
+        atlas.dispose();
+    });
+
+    await runTest('HysteresisSizePolicy keeps state per sizeKey and ignores lookups', () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { genSizePolicy: new HysteresisSizePolicy(0.1) });
+        atlas.registerFont('poppins', fontBytes);
+
+        // prefabCharset only looks up its atlas - the first real request isn't held at 32
+        atlas.prefabCharset('runs', 20, 'poppins', [0x42]);
+        const request = { codePoint: 0x41, variantId: 'runs', fontId: 'poppins', renderSize: 42 };
+        assert(atlas.getGlyph(request).genSize === 64, 'prefabCharset should not hold the variant at 32');
+
+        const title = { ...request, codePoint: 0x43, sizeKey: 'title' };
+        const body = { ...title, renderSize: 20, sizeKey: 'body' };
+
+        // Interleaved runs would otherwise pull the title down to 32
+        const sizes = [title, body, title, body, title].map(request => atlas.getGlyph(request).genSize);
+        assert(sizes.join() === '64,32,64,32,64', `runs should keep their own genSize, got ${sizes.join()}`);
+
+        atlas.dispose();
+    });
+
+    await runTest('NearestCachedSizePolicy serves a cached size while the ideal one generates', async () => {
+        let events = 0;
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => { events++; }, { genSizePolicy: new NearestCachedSizePolicy() });
+        atlas.registerFont('poppins', fontBytes);
+
+        const request = { codePoint: 0x41, variantId: 'zoom', fontId: 'poppins', renderSize: 30 };
+        await atlas.whenReady(request);
+
+        const zoomed = atlas.getGlyph({ ...request, renderSize: 60 });
+        assert(zoomed.cached && zoomed.genSize === 32, 'cached 32px glyph should stand in');
+        assert(atlas.pendingCount === 1, 'ideal 64px glyph should be queued');
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        const ideal = atlas.getGlyph({ ...request, renderSize: 60 });
+        assert(events === 2 && ideal.cached && ideal.genSize === 64, 'ideal size should be served once ready');
+
+        atlas.dispose();
+    });
+
+    // ==================== PROVISIONAL GLYPH TESTS ====================
+    console.log('\\nProvisional Glyph Tests:');
+
+    await runTest('getGlyph serves a cached size as a provisional stand-in', async () => {
+        const events: any[] = [];
+        const atlas = new FontAtlas(msdf, realTextureFactory, (event: any) => events.push(event));
+        atlas.registerFont('poppins', fontBytes);
+
+        const request = { codePoint: 0x41, variantId: 'v', fontId: 'poppins', renderSize: 30 };
+        await atlas.whenReady(request);
+
+        const standIn = atlas.getGlyph({ ...request, renderSize: 60 });
+        assert(standIn.provisional && !standIn.cached, 'stand-in should be provisional, not cached');
+        assert(standIn.genSize === 32 && standIn.uvs.u1 > standIn.uvs.u0, 'stand-in should be the 32px glyph');
+        assert(atlas.pendingCount === 1, 'the 64px glyph should still be queued');
+
+        const upgraded = await atlas.whenReady({ ...request, renderSize: 60 });
+        assert(upgraded.cached && !upgraded.provisional && upgraded.genSize === 64, 'real glyph should replace the stand-in');
+        const ready = events[events.length - 1].glyphs;
+        assert(ready.length === 1 && ready[0].upgrade && ready[0].genSize === 64, 'ready event should flag the upgrade');
+        assert(!events[0].glyphs[0].upgrade, 'glyphs without a stand-in are not upgrades');
+
+        // No other size cached - plain placeholder
+        const fresh = atlas.getGlyph({ ...request, codePoint: 0x42 });
+        assert(!fresh.provisional && fresh.uvs.u1 === fresh.uvs.u0, 'uncached glyph should get the empty placeholder');
+
+        atlas.dispose();
+    });
+
+    // ==================== SCALED METRICS TESTS ====================
+    console.log('\\nScaled Metrics Tests:');
+
+    await runTest('GlyphInfo carries metrics and pxRange scaled to renderSize', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, undefined, { pixelRange: 4 });
+        atlas.registerFont('poppins', fontBytes);
+
+        const info = await atlas.whenReady({ codePoint: 0x67, variantId: 'v', fontId: 'poppins', renderSize: 48 });
+        const scale = 48 / info.genSize;
+        const { metrics, scaled } = info;
+        assert(info.genSize === 64, `expected genSize 64, got ${info.genSize}`);
+        assert(Math.abs(scaled.advance - metrics.advance * scale) < 1e-9, 'advance should be scaled');
+        assert(Math.abs(scaled.x - metrics.planeBounds.l * scale) < 1e-9, 'x should be the scaled left bearing');
+        assert(Math.abs(scaled.y + metrics.planeBounds.t * scale) < 1e-9, 'y should be the scaled top, y down');
+        assert(Math.abs(scaled.width - metrics.width * scale) < 1e-9 && Math.abs(scaled.height - metrics.height * scale) < 1e-9, 'quad size should cover the bitmap');
+        assert(scaled.y + scaled.height > 0, 'g should descend below the baseline');
+        assert(Math.abs(info.pxRange - 3) < 1e-9, `expected pxRange 3, got ${info.pxRange}`);
+
+        const layout = atlas.layoutText('g', { variantId: 'v', fontId: 'poppins', fontSize: 48 });
+        assert(Math.abs(layout.quads[0].width - scaled.width) < 1e-9, 'layout should use the same scaled quad');
+
+        atlas.dispose();
+    });
+
+    // ==================== VARIANT OPTIONS TESTS ====================
+    console.log('\\nVariant Options Tests:');
+
+    await runTest('sdf and psdf variants use R8 pages and their own pixelRange', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory);
+        atlas.registerFont('poppins', fontBytes);
+        atlas.setVariantOptions('sdf', { fieldType: 'sdf', pixelRange: 8 });
+        atlas.setVariantOptions('psdf', { fieldType: 'psdf' });
+
+        const request = { codePoint: 0x41, fontId: 'poppins', renderSize: 32 };
+        const sdf = await atlas.whenReady({ ...request, variantId: 'sdf' });
+        const psdf = await atlas.whenReady({ ...request, variantId: 'psdf' });
+        const mtsdf = await atlas.whenReady({ ...request, variantId: 'mtsdf' });
+
+        assert(sdf.fieldType === 'sdf' && psdf.fieldType === 'psdf' && mtsdf.fieldType === 'mtsdf', 'GlyphInfo should report the field type');
+        assert(sdf.pxRange === 8 && psdf.pxRange === 4, `pxRange should follow the variant, got ${sdf.pxRange} / ${psdf.pxRange}`);
+        assert(sdf.metrics.width > mtsdf.metrics.width, 'wider pixelRange should give a bigger bitmap');
+
+        for (const info of [sdf, psdf]) {
+            const texture = info.texture as any;
+            assert(texture.buffer.length === texture.width * texture.height, 'single-channel pages should be R8');
+            assert(texture.buffer.some((value: number) => value > 0), 'R8 page should hold the field');
+        }
+        const texture = mtsdf.texture as any;
+        assert(texture.buffer.length === texture.width * texture.height * 4, 'mtsdf pages should stay RGBA');
+
+        const pageBytes = (info: any) => info.texture.width * info.texture.height * (info.fieldType === 'mtsdf' ? 4 : 1);
+        const expected = pageBytes(sdf) + pageBytes(psdf) + pageBytes(mtsdf);
+        assert(atlas.getStatus().memoryBytes === expected, `memory should count R8 pages at 1 byte, got ${atlas.getStatus().memoryBytes}`);
+
+        // fillRatio is pixels over pixels, whatever the bytes per pixel
+        const glyphArea = [sdf, psdf, mtsdf].reduce((sum: number, info: any) => sum + info.metrics.width * info.metrics.height, 0);
+        const pageArea = [sdf, psdf, mtsdf].reduce((sum: number, info: any) => sum + info.texture.width * info.texture.height, 0);
+        assert(Math.abs(atlas.getStatus().fillRatio - glyphArea / pageArea) < 1e-9, `fillRatio should use page pixels, got ${atlas.getStatus().fillRatio}`);
+
+        atlas.dispose();
+    });
+
+    await runTest('setVariantOptions refuses to change a variant that has glyphs', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory);
+        atlas.registerFont('poppins', fontBytes);
+        atlas.setVariantOptions('display', { fieldType: 'msdf', pixelRange: 6 });
+        await atlas.whenReady({ codePoint: 0x41, variantId: 'display', fontId: 'poppins', renderSize: 32 });
+
+        atlas.setVariantOptions('display', { pixelRange: 6 });   // unchanged is fine
+        let error = '';
+        try {
+            atlas.setVariantOptions('display', { fieldType: 'sdf' });
+        } catch (e: any) {
+            error = e.message;
+        }
+        assert(error.includes('display'), `expected an error naming the variant, got "${error}"`);
+        assert(atlas.getVariantOptions('display').fieldType === 'msdf', 'options should be unchanged');
+
+        atlas.dispose();
+    });
+
+    // ==================== WORKER POOL TESTS ====================
+    console.log('\\nWorker Pool Tests:');
+
+    // Stand-in pool: generates asynchronously with the shared generator
+    const createTestPool = (bytes: Uint8Array) => ({
+        workerCount: 2,
+        dispatched: 0,
+        generateGlyph(charCode: number, fontSize: number, pixelRange: number, glyphType: 'msdf' | 'mtsdf') {
+            this.dispatched++;
+            return new Promise<any>(resolve => setTimeout(() => {
+                msdf.loadFont(bytes);
+                msdf.clearVariationAxes();
+                const glyph = glyphType === 'mtsdf'
+                    ? msdf.generateMTSDF(charCode, fontSize, pixelRange)
+                    : msdf.generate(charCode, fontSize, pixelRange);
+                resolve({ charCode, success: !!glyph, metrics: glyph?.metrics, pixels: glyph?.pixels, timeMs: 0 });
+            }, 10));
+        },
+    });
+
+    await runTest('worker pool generates glyphs off the batch', async () => {
+        let readyCount = 0;
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => { readyCount++; });
+        atlas.registerFont('poppins', fontBytes);
+        const pool = createTestPool(fontBytes);
+        atlas.setWorkerPool('poppins', pool);
+
+        const request = { variantId: 'worker-test', fontId: 'poppins', renderSize: 32 };
+        atlas.getGlyph({ ...request, codePoint: 65 });
+        atlas.getGlyph({ ...request, codePoint: 32 });
+
+        await new Promise(resolve => setTimeout(resolve, 1));
+        assert(pool.dispatched === 2, `both glyphs should go to the pool, got ${pool.dispatched}`);
+        assert(atlas.hasPendingWork, 'should have work in flight');
+
+        await new Promise(resolve => setTimeout(resolve, 100));
+        const a = atlas.getGlyph({ ...request, codePoint: 65 });
+        const space = atlas.getGlyph({ ...request, codePoint: 32 });
+        assert(a.cached && !a.empty && a.metrics.width > 0, 'A should be filled from the worker result');
+        assert(space.cached && space.empty && space.metrics.advance > 0, 'space should be empty with an advance');
+        assert(readyCount >= 1, 'onGlyphsReady should fire for worker results');
+        assert(!atlas.hasPendingWork, 'no work should remain');
+
+        atlas.dispose();
+    });
+
+    await runTest('failing worker pool falls back to synchronous generation', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
+        atlas.setWorkerPool('poppins', {
+            workerCount: 1,
+            generateGlyph: () => Promise.reject(new Error('worker failed to start')),
+        });
+
+        const request = { codePoint: 66, variantId: 'worker-fail', fontId: 'poppins', renderSize: 32 };
+        atlas.getGlyph(request);
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        assert(atlas.getGlyph(request).cached, 'glyph should be generated on the main thread');
+
+        atlas.dispose();
+    });
+
+    // ==================== FALLBACK FONT TESTS ====================
+    console.log('\\nFallback Font Tests:');
+
+    await runTest('fallback font supplies glyph missing from primary font', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
+        atlas.registerFont('inter', interBytes);
+        atlas.setFallbackFonts('fallback-test', ['inter']);
+
+        const request = {
+            codePoint: 0x416, // 'Ж' - not in Poppins
+            variantId: 'fallback-test',
+            fontId: 'poppins',
+            renderSize: 32,
+        };
+        atlas.getGlyph(request);
+
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        const info = atlas.getGlyph(request);
+        assert(info.cached, 'should be cached after batch');
+        assert(!info.missing, 'fallback glyph should not be missing');
+        assert(info.metrics.width > 0, 'should have width');
+        assert(info.fontId === 'inter', `fontId should be inter, got ${info.fontId}`);
+
+        const latin = atlas.getGlyph({ ...request, codePoint: 65 });
+        await new Promise(resolve => setTimeout(resolve, 100));
+        assert(atlas.getGlyph({ ...request, codePoint: 65 }).fontId === 'poppins', 'A should come from poppins');
+        assert(latin.fontId === 'poppins', 'pending glyph reports request font');
+
+        atlas.dispose();
+    });
+
+    await runTest('setFallbackFonts retries glyphs marked missing', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
+        atlas.registerFont('inter', interBytes);
+
+        atlas.prefabCharset('retry-test', 32, 'poppins', [0x416]);
+        const request = { codePoint: 0x416, variantId: 'retry-test', fontId: 'poppins', renderSize: 32 };
+        assert(atlas.getGlyph(request).missing, 'should be missing without fallback');
+
+        atlas.setFallbackFonts('retry-test', ['inter']);
+        atlas.prefabCharset('retry-test', 32, 'poppins', [0x416]);
+
+        const info = atlas.getGlyph(request);
+        assert(info.cached && !info.missing, 'should be found in fallback');
+        assert(info.fontId === 'inter', 'fontId should be inter');
+
+        atlas.dispose();
+    });
+
+    // ==================== KERNING TESTS ====================
+    console.log('\\nKerning Tests:');
+
+    await runTest('getKerning reads GPOS pair adjustments', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('inter', interBytes);
+        atlas.registerFont('poppins', fontBytes);
+
+        assert(atlas.getKerning('kern-inter', 0x41, 0x56, 32) === 0, 'unknown variant should have no kerning');
+
+        atlas.prefabCharset('kern-inter', 32, 'inter', [0x41, 0x56]);
+        const av = atlas.getKerning('kern-inter', 0x41, 0x56, 32);
+        assert(av < 0, `AV should kern tighter, got ${av}`);
+        assert(atlas.getKerning('kern-inter', 0x41, 0x56, 64) === av * 2, 'kerning should scale with size');
+
+        // This Poppins build ships no kerning
+        atlas.prefabCharset('kern-poppins', 32, 'poppins', [0x41, 0x56]);
+        assert(atlas.getKerning('kern-poppins', 0x41, 0x56, 32) === 0, 'font without kerning should return 0');
+
+        atlas.dispose();
+    });
+
+    // ==================== FONT METRICS TESTS ====================
+    console.log('\\nFont Metrics Tests:');
+
+    await runTest('getFontMetrics scales hhea/OS/2/post metrics to size', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
+
+        const metrics = atlas.getFontMetrics('poppins', 100);
+        assert(metrics.unitsPerEm === 1000, `unitsPerEm should be 1000, got ${metrics.unitsPerEm}`);
+        assert(metrics.ascender > 0 && metrics.descender < 0, 'ascender above, descender below baseline');
+        assert(metrics.lineHeight === metrics.ascender - metrics.descender + metrics.lineGap, 'lineHeight should add up');
+        assert(metrics.capHeight > metrics.xHeight && metrics.xHeight > 0, 'capHeight should exceed xHeight');
+        assert(Math.abs(atlas.getFontMetrics('poppins', 50).ascender * 2 - metrics.ascender) < 1e-9, 'should scale with size');
+
+        atlas.dispose();
+    });
+
+    await runTest('getFontMetrics applies MVAR deltas for variation axes', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('inter', interBytes);
+
+        const regular = atlas.getFontMetrics('inter', 32);
+        const black = atlas.getFontMetrics('inter', 32, [{ tag: 'wght', value: 900 }]);
+        assert(black.underlineThickness > regular.underlineThickness, 'heavier weight should thicken the underline');
+
+        atlas.dispose();
+    });
+
+    // ==================== TEXT LAYOUT TESTS ====================
+    console.log('\\nText Layout Tests:');
+
+    await runTest('layoutText positions glyphs with advances and kerning', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('inter', interBytes);
+        atlas.prefabCharset('layout-kern', 32, 'inter', ['ascii']);
+
+        const style = { variantId: 'layout-kern', fontId: 'inter', fontSize: 32 };
+        const kerned = atlas.layoutText('AV', style);
+        const plain = atlas.layoutText('AV', { ...style, kerning: false });
+
+        assert(kerned.complete, 'prefabbed glyphs should lay out completely');
+        assert(kerned.quads.length === 2, `expected 2 quads, got ${kerned.quads.length}`);
+        assert(kerned.quads[1].x < plain.quads[1].x, 'kerning should pull V towards A');
+        assert(kerned.width < plain.width, 'kerned run should be narrower');
+
+        atlas.dispose();
+    });
+
+    await runTest('layoutText handles newlines, wrapping and alignment', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
+        atlas.prefabCharset('layout-wrap', 32, 'poppins', ['ascii']);
+
+        const style = { variantId: 'layout-wrap', fontId: 'poppins', fontSize: 32 };
+        const single = atlas.layoutText('hello world', style);
+        assert(single.lines.length === 1, 'no maxWidth should give one line');
+        assert(single.quads.length === 10, 'space should not produce a quad');
+
+        const broken = atlas.layoutText('hello\nworld', style);
+        assert(broken.lines.length === 2, 'newline should start a new line');
+        assert(broken.lines[1].start === 6 && broken.lines[1].end === 11, 'line range should skip the newline');
+        assert(broken.lines[1].baseline > broken.lines[0].baseline, 'second line should be lower');
+
+        const wrapped = atlas.layoutText('hello world', { ...style, maxWidth: single.width * 0.75 });
+        assert(wrapped.lines.length === 2, `should wrap to 2 lines, got ${wrapped.lines.length}`);
+        assert(wrapped.lines[1].start === 6, 'should break after the space');
+        assert(wrapped.lines.every((line: any) => line.width <= single.width * 0.75), 'lines should fit maxWidth');
+
+        const right = atlas.layoutText('hello\nworld', { ...style, align: 'right', maxWidth: 400 });
+        assert(Math.abs(right.lines[0].x + right.lines[0].width - 400) < 1e-6, 'right aligned line should end at maxWidth');
+
+        atlas.dispose();
+    });
+
+    await runTest('layoutText maps surrogate pairs to source clusters', async () => {
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
+        atlas.prefabCharset('layout-cluster', 32, 'poppins', [0x61, 0x62, 0x1F600]);
+
+        const layout = atlas.layoutText('a\u{1F600}b', { variantId: 'layout-cluster', fontId: 'poppins', fontSize: 32 });
+        const b = layout.quads.find((quad: any) => quad.codePoint === 0x62);
+        assert(b !== undefined && b.cluster === 3, 'b should map back to UTF-16 index 3');
+
+        atlas.dispose();
+    });
+
+    await runTest('measureText uses outline metrics without generating glyphs', async () => {
+        let callbackCalled = false;
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => { callbackCalled = true; });
+        atlas.registerFont('inter', interBytes);
+
+        const kerned = atlas.measureText('AV', 'measure', 32, 'inter');
+        assert(kerned.advances.length === 2 && kerned.clusters[1] === 1, 'one advance per code point');
+        assert(Math.abs(kerned.width - (kerned.advances[0] + kerned.advances[1])) < 1e-9, 'width should sum advances');
+        assert(kerned.inkBounds.t > 0 && kerned.inkBounds.r > kerned.inkBounds.l, 'ink bounds should cover the outlines');
+
+        const spaced = atlas.measureText('A V', 'measure', 32, 'inter');
+        assert(spaced.advances[1] > 0, 'space should still advance');
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        assert(atlas.getStatus().atlasCount === 0, 'no atlas should be created');
+        assert(!callbackCalled && !atlas.hasPendingWork, 'nothing should be queued');
+
+        atlas.dispose();
+    });
+
+    // ==================== PACKING TESTS ====================
+    console.log('\\nPacking Tests:');
+
+    await runTest('skyline and maxrects packing need no more pages than shelf', async () => {
+        const pageCounts: Record<string, number> = {};
+
+        for (const packing of ['shelf', 'skyline', 'maxrects']) {
+            const atlas = new FontAtlas(msdf, realTextureFactory, () => {}, {
+                pageSize: 256,
+                maxMixedPages: 16,
+                packing,
+            });
+            atlas.registerFont('poppins', fontBytes);
+
+            // Latin Extended-A: mixed heights (accents, descenders) on mixed pages
+            for (let cp = 0x100; cp < 0x180; cp++) {
+                atlas.getGlyph({
+                    codePoint: cp,
+                    variantId: `pack-${packing}`,
+                    fontId: 'poppins',
+                    renderSize: 32,
+                });
+            }
+            await new Promise(resolve => setTimeout(resolve, 300));
+
+            const status = atlas.getStatus();
+            assert(status.fillRatio > 0 && status.fillRatio <= 1, `${packing}: bad fillRatio ${status.fillRatio}`);
+            pageCounts[packing] = status.pageCount;
+            atlas.dispose();
+        }
+
+        assert(pageCounts.skyline <= pageCounts.shelf, `skyline ${pageCounts.skyline} > shelf ${pageCounts.shelf} pages`);
+        assert(pageCounts.maxrects <= pageCounts.shelf, `maxrects ${pageCounts.maxrects} > shelf ${pageCounts.shelf} pages`);
+    });
+
+    await runTest('updateRegion uploads only the new glyph area', async () => {
+        const regions: { x: number; y: number; w: number; h: number }[] = [];
+        let fullUpdates = 0;
+        const regionFactory = {
+            ...realTextureFactory,
+            update(texture: RealTexture, buffer: Uint8Array): void {
+                fullUpdates++;
+                realTextureFactory.update(texture, buffer);
+            },
+            updateRegion(texture: RealTexture, buffer: Uint8Array, x: number, y: number, w: number, h: number): void {
+                regions.push({ x, y, w, h });
+                texture.updates++;
+            },
+        };
+        const atlas = new FontAtlas(msdf, regionFactory, () => {});
+        atlas.registerFont('poppins', fontBytes);
+
+        atlas.getGlyph({
+            codePoint: 0xE9, // 'é'
+            variantId: 'region-test',
+            fontId: 'poppins',
+            renderSize: 32,
+        });
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        const info = atlas.getGlyph({
+            codePoint: 0xE9,
+            variantId: 'region-test',
+            fontId: 'poppins',
+            renderSize: 32,
+        });
+
+        assert(fullUpdates === 0, `should not upload full page, got ${fullUpdates}`);
+        assert(regions.length === 1, `should upload one region, got ${regions.length}`);
+        assert(regions[0].w === info.metrics.width && regions[0].h === info.metrics.height,
+            'region should match glyph size');
+
+        atlas.dispose();
+    });
+
+    // ==================== TEXTURE ARRAY TESTS ====================
+    console.log('\\nTexture Array Tests:');
+
+    await runTest('atlas-array mode puts all variant pages in one array texture', async () => {
+        const replaced: any[] = [];
+        const layeredFactory = {
+            ...realTextureFactory,
+            createLayered(width: number, height: number, layers: number): RealTexture {
+                return { id: ++textureId, width, height, buffer: new Uint8Array(0), updates: 0, layers } as any;
+            },
+            updateLayer(texture: RealTexture, layer: number, buffer: Uint8Array): void {
+                texture.updates++;
+            },
+        };
+        const atlas = new FontAtlas(msdf, layeredFactory, () => {}, {
+            pageSize: 256,
+            pageMode: 'atlas-array',
+        });
+        atlas.registerFont('poppins', fontBytes);
+        atlas.onTextureReplaced = (event: any) => replaced.push(event);
+
+        // One mixed page per variant - 5 layers outgrow the initial capacity of 4
+        for (let v = 0; v < 5; v++) {
+            atlas.getGlyph({
+                codePoint: 0xE9,
+                variantId: `array-${v}`,
+                fontId: 'poppins',
+                renderSize: 32,
+            });
+        }
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        const infos: any[] = [];
+        for (let v = 0; v < 5; v++) {
+            infos.push(atlas.getGlyph({
+                codePoint: 0xE9,
+                variantId: `array-${v}`,
+                fontId: 'poppins',
+                renderSize: 32,
+            }));
+        }
+
+        assert(infos.every(info => info.texture === infos[0].texture), 'all variants should share one texture');
+        assert(new Set(infos.map(info => info.layer)).size === 5, 'each variant page should have its own layer');
+        assert(replaced.length === 1, `array should grow once, got ${replaced.length}`);
+        assert(replaced[0].texture === infos[0].texture, 'glyphs should reference the grown texture');
+
+        atlas.dispose();
+    });
+
+    // ==================== GROWABLE PAGE TESTS ====================
+    console.log('\\nGrowable Page Tests:');
+
+    await runTest('growable pages start small and report growth', async () => {
+        const grown: any[] = [];
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {}, {
+            pageSize: 1024,
+            initialPageSize: 64,
+        });
+        atlas.registerFont('poppins', fontBytes);
+        atlas.onTextureReplaced = (event: any) => grown.push(event);
+
+        atlas.prefabLatin('grow-test', 32, 'poppins');
+
+        const status = atlas.getStatus();
+        assert(status.glyphCount === 62, `should have 62 glyphs, got ${status.glyphCount}`);
+        assert(grown.length > 0, 'page should have grown');
+        assert(grown.every(e => e.reason === 'page-grow'), 'growth events should be page-grow');
+        assert(status.memoryBytes < 1024 * 1024 * 4, `page should stay below full size, got ${status.memoryBytes} bytes`);
+
+        const info = atlas.getGlyph({
+            codePoint: 65,
+            variantId: 'grow-test',
+            fontId: 'poppins',
+            renderSize: 32,
+        });
+        const last = grown[grown.length - 1];
+        assert(info.texture === last.texture, 'glyph should reference the grown texture');
+        assert(info.uvs.u1 <= 1 && info.uvs.v1 <= 1, 'UVs should be relative to the grown page');
+        assert(Math.round((info.uvs.u1 - info.uvs.u0) * last.width) === info.metrics.width, 'UV width should match glyph width');
+
+        atlas.dispose();
+    });
+
+    // ==================== EVICTION TESTS ====================
+    console.log('\\nEviction Tests:');
+
+    await runTest('full variant evicts LRU mixed page and reports glyphs', async () => {
+        const evicted: number[] = [];
+        const atlas = new FontAtlas(msdf, realTextureFactory, () => {}, {
+            pageSize: 128,
+            maxMixedPages: 1,
+        });
+        atlas.registerFont('poppins', fontBytes);
+        atlas.onGlyphsEvicted = (event: any) => {
+            evicted.push(...event.codePoints);
+        };
+
+        for (let cp = 0xC0; cp < 0xE0; cp++) {
+            atlas.getGlyph({
+                codePoint: cp,
+                variantId: 'evict-test',
+                fontId: 'poppins',
+                renderSize: 32,
+            });
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        const status = atlas.getStatus();
+        assert(status.pageCount === 1, `should stay at 1 mixed page, got ${status.pageCount}`);
+        assert(evicted.length > 0, 'should report evicted glyphs');
+
+        const info = atlas.getGlyph({
+            codePoint: evicted[0],
+            variantId: 'evict-test',
+            fontId: 'poppins',
+            renderSize: 32,
+        });
+        assert(!info.cached, 'evicted glyph should be regenerated on next request');
+
+        atlas.dispose();
+    });
+
+    await runTest('glyphs evicted again within a batch are not reported ready', async () => {
+        const request = { variantId: 'batch-evict', fontId: 'poppins', renderSize: 32 };
+        const notCached: number[] = [];
+        let reported = 0;
+        const atlas = new FontAtlas(msdf, realTextureFactory, (event: any) => {
+            for (const glyph of event.glyphs) {
+                reported++;
+                if (!atlas.getGlyph({ ...request, codePoint: glyph.codePoint }).cached) notCached.push(glyph.codePoint);
+            }
+        }, { pageSize: 128, maxMixedPages: 2 });
+        atlas.registerFont('poppins', fontBytes);
+
+        for (let codePoint = 0x120; codePoint < 0x140; codePoint++) {
+            atlas.getGlyph({ ...request, codePoint });
+        }
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        assert(reported > 0, 'some glyphs should be reported');
+        assert(notCached.length === 0, `reported glyphs should be cached, not: ${notCached.join(', ')}`);
+
+        atlas.dispose();
+    });
+
     // Summary
     console.log('\\n=== Summary ===');
     console.log(`Tests: ${passed} passed, ${failed} failed`);